@@ -0,0 +1,779 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  query,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+
+// Run with `npm run test:rules`, which starts the Firestore emulator first
+let testEnv: RulesTestEnvironment;
+
+const OWNER = 'owner';
+const MEMBER = 'member';
+const REQUESTER = 'requester';
+const STRANGER = 'stranger';
+
+const now = Timestamp.now();
+
+const member = (userId: string, role: 'owner' | 'admin' | 'member') => ({
+  userId,
+  displayName: userId,
+  email: `${userId}@example.com`,
+  joinedAt: now,
+  role,
+});
+
+const dbAs = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+
+// Seed a project with its post, group chat, a pending request and its request DM
+const seed = async () => {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await setDoc(doc(db, 'users', OWNER), { uid: OWNER, email: 'owner@example.com', name: 'Owner' });
+    await setDoc(doc(db, 'posts', 'post1'), { uid: OWNER, projectId: 'project1', title: 'Robot', status: 'open' });
+    await setDoc(doc(db, 'projects', 'project1'), {
+      title: 'Robot',
+      ownerId: OWNER,
+      postId: 'post1',
+      groupChatId: 'chat1',
+      memberIds: [OWNER, MEMBER],
+      maxMembers: null,
+      status: 'open',
+    });
+    await setDoc(doc(db, 'groupChats', 'chat1'), {
+      projectId: 'project1',
+      projectName: 'Robot',
+      memberIds: [OWNER, MEMBER],
+      members: { [OWNER]: member(OWNER, 'owner'), [MEMBER]: member(MEMBER, 'member') },
+      isActive: true,
+      settings: { allowInvites: true, isPublic: false },
+    });
+    await setDoc(doc(db, 'groupChats', 'chat1', 'messages', 'ownerMessage'), {
+      senderId: OWNER,
+      senderName: OWNER,
+      text: 'Welcome!',
+      timestamp: now,
+      type: 'text',
+    });
+    await setDoc(doc(db, 'groupChats', 'chat1', 'messages', 'memberMessage'), {
+      senderId: MEMBER,
+      senderName: MEMBER,
+      text: 'Hi all',
+      timestamp: now,
+      type: 'text',
+    });
+    await setDoc(doc(db, 'projectRequests', 'request1'), {
+      fromUserId: REQUESTER,
+      toUserId: OWNER,
+      projectId: 'project1',
+      projectName: 'Robot',
+      status: 'pending',
+      type: 'join_project',
+    });
+    await setDoc(doc(db, 'requestDMs', 'dm1'), {
+      requestId: 'request1',
+      participants: [OWNER, REQUESTER].sort(),
+      isActive: true,
+    });
+  });
+};
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-278project',
+    firestore: {
+      rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8'),
+    },
+  });
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed();
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+describe('users', () => {
+  it('lets signed-in users read profiles but not anonymous visitors', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(STRANGER), 'users', OWNER)));
+    await assertFails(getDoc(doc(testEnv.unauthenticatedContext().firestore(), 'users', OWNER)));
+  });
+
+  it('only lets users write their own profile', async () => {
+    await assertSucceeds(setDoc(doc(dbAs(STRANGER), 'users', STRANGER), { uid: STRANGER, name: 'Me' }));
+    await assertSucceeds(updateDoc(doc(dbAs(OWNER), 'users', OWNER), { bio: 'Hello' }));
+    await assertFails(updateDoc(doc(dbAs(STRANGER), 'users', OWNER), { bio: 'Hacked' }));
+    await assertFails(setDoc(doc(dbAs(STRANGER), 'users', 'someoneElse'), { uid: 'someoneElse' }));
+  });
+});
+
+describe('mentions', () => {
+  const notice = (senderId: string) => ({
+    chatId: 'chat1',
+    chatName: 'Robot',
+    messageId: 'mention1',
+    senderId,
+    senderName: senderId,
+    text: '@Owner can you look?',
+    createdAt: now,
+    read: false,
+  });
+
+  const sendWithMention = (senderId: string, mentionedId: string) => {
+    const db = dbAs(senderId);
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'groupChats', 'chat1', 'messages', 'mention1'), {
+      senderId,
+      senderName: senderId,
+      text: '@Owner can you look?',
+      timestamp: now,
+      type: 'text',
+      mentions: [{ userId: mentionedId, start: 0, length: 6 }],
+    });
+    batch.set(doc(db, 'users', mentionedId, 'mentions', 'mention1'), notice(senderId));
+    return batch.commit();
+  };
+
+  it('only lets members notify other members along with the message', async () => {
+    await assertFails(setDoc(doc(dbAs(MEMBER), 'users', OWNER, 'mentions', 'mention1'), notice(MEMBER)));
+    await assertFails(sendWithMention(STRANGER, OWNER));
+    await assertFails(sendWithMention(MEMBER, STRANGER));
+    await assertSucceeds(sendWithMention(MEMBER, OWNER));
+  });
+
+  it('only lets the mentioned user and the sender read notices, and only the user mark them read', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'users', OWNER, 'mentions', 'mention1'), notice(MEMBER));
+    });
+
+    await assertSucceeds(getDoc(doc(dbAs(OWNER), 'users', OWNER, 'mentions', 'mention1')));
+    await assertSucceeds(getDoc(doc(dbAs(MEMBER), 'users', OWNER, 'mentions', 'mention1')));
+    await assertFails(getDoc(doc(dbAs(STRANGER), 'users', OWNER, 'mentions', 'mention1')));
+    await assertFails(updateDoc(doc(dbAs(OWNER), 'users', OWNER, 'mentions', 'mention1'), { text: 'Edited' }));
+    await assertSucceeds(updateDoc(doc(dbAs(OWNER), 'users', OWNER, 'mentions', 'mention1'), { read: true }));
+  });
+
+  it('lets senders move notices along with an edit', async () => {
+    await sendWithMention(MEMBER, OWNER);
+    const db = dbAs(MEMBER);
+    const noticeRef = (uid: string) => doc(db, 'users', uid, 'mentions', 'mention1');
+    const edit = (text: string, mentions: { userId: string; start: number; length: number }[]) => ({
+      text,
+      mentions,
+      edited: true,
+      editedAt: Timestamp.fromMillis(now.toMillis() + 1000),
+      searchTokens: [],
+    });
+
+    await assertFails(updateDoc(noticeRef(OWNER), { text: 'Sneaky' }));
+    await assertFails(deleteDoc(noticeRef(OWNER)));
+
+    const retarget = writeBatch(db);
+    retarget.update(doc(db, 'groupChats', 'chat1', 'messages', 'mention1'), edit('@requester can you look?', []));
+    retarget.delete(noticeRef(OWNER));
+    await assertSucceeds(retarget.commit());
+  });
+
+  it('lets senders edit after a mentioned member cleared the notice', async () => {
+    await sendWithMention(MEMBER, OWNER);
+    await assertSucceeds(deleteDoc(doc(dbAs(OWNER), 'users', OWNER, 'mentions', 'mention1')));
+
+    const noticeRef = (uid: string) => doc(dbAs(uid), 'users', OWNER, 'mentions', 'mention1');
+    await assertSucceeds(getDoc(noticeRef(MEMBER)));
+
+    const batch = writeBatch(dbAs(MEMBER));
+    batch.update(doc(dbAs(MEMBER), 'groupChats', 'chat1', 'messages', 'mention1'), {
+      text: 'Never mind',
+      mentions: deleteField(),
+      edited: true,
+      editedAt: Timestamp.fromMillis(now.toMillis() + 1000),
+      searchTokens: [],
+    });
+    batch.delete(noticeRef(MEMBER));
+    await assertSucceeds(batch.commit());
+  });
+
+  it('clears notices when their message is deleted', async () => {
+    await sendWithMention(MEMBER, OWNER);
+    const deleteWithNotice = (uid: string, tombstone: boolean) => {
+      const db = dbAs(uid);
+      const batch = writeBatch(db);
+      if (tombstone) {
+        batch.update(doc(db, 'groupChats', 'chat1', 'messages', 'mention1'), {
+          text: '',
+          mentions: deleteField(),
+          searchTokens: [],
+          deleted: true,
+          deletedAt: now,
+          deletedBy: uid,
+        });
+      }
+      batch.delete(doc(db, 'users', OWNER, 'mentions', 'mention1'));
+      return batch.commit();
+    };
+
+    await assertFails(deleteWithNotice(MEMBER, false));
+    await assertFails(deleteWithNotice(STRANGER, true));
+    await assertSucceeds(deleteWithNotice(MEMBER, true));
+  });
+});
+
+describe('presence', () => {
+  it('lets users set only their own presence', async () => {
+    await assertSucceeds(setDoc(doc(dbAs(MEMBER), 'presence', MEMBER), { state: 'online', lastSeen: now }));
+    await assertFails(setDoc(doc(dbAs(STRANGER), 'presence', MEMBER), { state: 'offline', lastSeen: now }));
+    await assertFails(setDoc(doc(dbAs(MEMBER), 'presence', MEMBER), { state: 'away', lastSeen: now }));
+    await assertSucceeds(getDoc(doc(dbAs(STRANGER), 'presence', MEMBER)));
+  });
+});
+
+describe('friendships', () => {
+  const FRIENDSHIP_ID = [OWNER, REQUESTER].sort().join('_');
+  const friendship = (requesterId: string, addresseeId: string, status = 'pending') => ({
+    userIds: [requesterId, addresseeId].sort(),
+    requesterId,
+    addresseeId,
+    status,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  beforeEach(async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'users', REQUESTER), { uid: REQUESTER, name: 'Requester', friendsCount: 0 });
+    });
+  });
+
+  it('only creates requests from yourself, keyed by the pair', async () => {
+    await assertSucceeds(setDoc(doc(dbAs(REQUESTER), 'friendships', FRIENDSHIP_ID), friendship(REQUESTER, OWNER)));
+    await assertFails(setDoc(doc(dbAs(STRANGER), 'friendships', FRIENDSHIP_ID), friendship(REQUESTER, OWNER)));
+    await assertFails(setDoc(doc(dbAs(REQUESTER), 'friendships', 'wrong_id'), friendship(REQUESTER, OWNER)));
+  });
+
+  it('only lets the addressee accept, bumping both counts together', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'friendships', FRIENDSHIP_ID), friendship(REQUESTER, OWNER));
+    });
+
+    await assertFails(updateDoc(doc(dbAs(REQUESTER), 'friendships', FRIENDSHIP_ID), { status: 'accepted' }));
+    await assertFails(updateDoc(doc(dbAs(OWNER), 'users', REQUESTER), { friendsCount: increment(1) }));
+
+    const batch = writeBatch(dbAs(OWNER));
+    batch.update(doc(dbAs(OWNER), 'friendships', FRIENDSHIP_ID), { status: 'accepted', acceptedAt: now });
+    batch.update(doc(dbAs(OWNER), 'users', OWNER), { friendsCount: increment(1) });
+    batch.update(doc(dbAs(OWNER), 'users', REQUESTER), { friendsCount: increment(1) });
+    await assertSucceeds(batch.commit());
+  });
+
+  it('lets either friend remove the friendship, dropping both counts together', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'friendships', FRIENDSHIP_ID), friendship(REQUESTER, OWNER, 'accepted'));
+      await updateDoc(doc(context.firestore(), 'users', OWNER), { friendsCount: 1 });
+      await updateDoc(doc(context.firestore(), 'users', REQUESTER), { friendsCount: 1 });
+    });
+
+    await assertFails(deleteDoc(doc(dbAs(STRANGER), 'friendships', FRIENDSHIP_ID)));
+    await assertFails(updateDoc(doc(dbAs(REQUESTER), 'users', OWNER), { friendsCount: increment(-1) }));
+
+    const batch = writeBatch(dbAs(REQUESTER));
+    batch.delete(doc(dbAs(REQUESTER), 'friendships', FRIENDSHIP_ID));
+    batch.update(doc(dbAs(REQUESTER), 'users', REQUESTER), { friendsCount: increment(-1) });
+    batch.update(doc(dbAs(REQUESTER), 'users', OWNER), { friendsCount: increment(-1) });
+    await assertSucceeds(batch.commit());
+  });
+
+  it('keeps friendships private to the pair', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'friendships', FRIENDSHIP_ID), friendship(REQUESTER, OWNER));
+    });
+
+    await assertSucceeds(getDoc(doc(dbAs(OWNER), 'friendships', FRIENDSHIP_ID)));
+    await assertFails(getDoc(doc(dbAs(STRANGER), 'friendships', FRIENDSHIP_ID)));
+    await assertSucceeds(getDocs(query(collection(dbAs(OWNER), 'friendships'), where('userIds', 'array-contains', OWNER))));
+  });
+});
+
+describe('posts', () => {
+  it('only lets the post owner edit or delete it', async () => {
+    await assertSucceeds(updateDoc(doc(dbAs(OWNER), 'posts', 'post1'), { title: 'Robot v2' }));
+    await assertFails(updateDoc(doc(dbAs(STRANGER), 'posts', 'post1'), { title: 'Mine now' }));
+    await assertFails(deleteDoc(doc(dbAs(MEMBER), 'posts', 'post1')));
+    await assertSucceeds(deleteDoc(doc(dbAs(OWNER), 'posts', 'post1')));
+  });
+
+  it('does not let users post as someone else', async () => {
+    await assertFails(addDoc(collection(dbAs(STRANGER), 'posts'), { uid: OWNER, title: 'Fake' }));
+    await assertSucceeds(addDoc(collection(dbAs(STRANGER), 'posts'), { uid: STRANGER, title: 'Mine' }));
+  });
+
+  it("only lets others change a post's status along with its project", async () => {
+    await assertFails(updateDoc(doc(dbAs(STRANGER), 'posts', 'post1'), { status: 'full' }));
+  });
+});
+
+describe('projects', () => {
+  it('only lets the owner update a project', async () => {
+    await assertSucceeds(updateDoc(doc(dbAs(OWNER), 'projects', 'project1'), { status: 'in_progress' }));
+    await assertFails(updateDoc(doc(dbAs(MEMBER), 'projects', 'project1'), { status: 'finished' }));
+    await assertFails(updateDoc(doc(dbAs(OWNER), 'projects', 'project1'), { ownerId: STRANGER }));
+  });
+
+  it('lets the owner hand the project to a member', async () => {
+    await assertFails(updateDoc(doc(dbAs(MEMBER), 'projects', 'project1'), { ownerId: MEMBER }));
+    await assertSucceeds(updateDoc(doc(dbAs(OWNER), 'projects', 'project1'), { ownerId: MEMBER }));
+  });
+
+  it('moves the post and pending join requests along with the project', async () => {
+    const transfer = (postOwner: string, requestOwner: string) => {
+      const batch = writeBatch(dbAs(OWNER));
+      batch.update(doc(dbAs(OWNER), 'groupChats', 'chat1'), {
+        [`members.${OWNER}.role`]: 'admin',
+        [`members.${MEMBER}.role`]: 'owner',
+      });
+      batch.update(doc(dbAs(OWNER), 'projects', 'project1'), { ownerId: MEMBER, ownerName: MEMBER });
+      batch.update(doc(dbAs(OWNER), 'posts', 'post1'), { uid: postOwner, username: postOwner, photoURL: null });
+      batch.update(doc(dbAs(OWNER), 'projectRequests', 'request1'), { toUserId: requestOwner, updatedAt: now });
+      return batch.commit();
+    };
+
+    await assertFails(updateDoc(doc(dbAs(OWNER), 'posts', 'post1'), { uid: MEMBER }));
+    await assertFails(updateDoc(doc(dbAs(OWNER), 'projectRequests', 'request1'), { toUserId: MEMBER }));
+    await assertFails(transfer(STRANGER, MEMBER));
+    await assertFails(transfer(MEMBER, STRANGER));
+    await assertSucceeds(transfer(MEMBER, MEMBER));
+    await assertSucceeds(updateDoc(doc(dbAs(MEMBER), 'projectRequests', 'request1'), { status: 'declined' }));
+  });
+});
+
+describe('group chats', () => {
+  it('only lets members read the chat and its messages', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(MEMBER), 'groupChats', 'chat1')));
+    await assertSucceeds(getDocs(collection(dbAs(MEMBER), 'groupChats', 'chat1', 'messages')));
+    await assertFails(getDoc(doc(dbAs(STRANGER), 'groupChats', 'chat1')));
+    await assertFails(getDocs(collection(dbAs(STRANGER), 'groupChats', 'chat1', 'messages')));
+  });
+
+  it('only allows membership-scoped chat queries', async () => {
+    const chats = collection(dbAs(MEMBER), 'groupChats');
+    await assertSucceeds(getDocs(query(chats, where('memberIds', 'array-contains', MEMBER))));
+    await assertFails(getDocs(query(chats, where('projectId', '==', 'project1'))));
+  });
+
+  it('only lets members send messages, as themselves', async () => {
+    const messages = (uid: string) => collection(dbAs(uid), 'groupChats', 'chat1', 'messages');
+    const message = (senderId: string) => ({ senderId, senderName: senderId, text: 'Hey', timestamp: now, type: 'text' });
+
+    await assertSucceeds(addDoc(messages(MEMBER), message(MEMBER)));
+    await assertFails(addDoc(messages(MEMBER), message(OWNER)));
+    await assertFails(addDoc(messages(STRANGER), message(STRANGER)));
+  });
+
+  it('only accepts replies to messages in the same chat', async () => {
+    const reply = (messageId: string) => ({
+      senderId: MEMBER,
+      senderName: MEMBER,
+      text: 'Agreed',
+      timestamp: now,
+      type: 'text',
+      replyTo: { messageId, senderId: OWNER, senderName: OWNER, text: 'Welcome!' },
+    });
+
+    await assertSucceeds(addDoc(collection(dbAs(MEMBER), 'groupChats', 'chat1', 'messages'), reply('ownerMessage')));
+    await assertFails(addDoc(collection(dbAs(MEMBER), 'groupChats', 'chat1', 'messages'), reply('missingMessage')));
+  });
+
+  it('rejects new messages once the chat is read-only', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await updateDoc(doc(context.firestore(), 'groupChats', 'chat1'), { isReadOnly: true });
+    });
+
+    await assertFails(addDoc(collection(dbAs(MEMBER), 'groupChats', 'chat1', 'messages'), {
+      senderId: MEMBER,
+      senderName: MEMBER,
+      text: 'Too late',
+      timestamp: now,
+      type: 'text',
+    }));
+  });
+
+  it('lets members move their own read cursor but not change membership', async () => {
+    const chatRef = doc(dbAs(MEMBER), 'groupChats', 'chat1');
+    await assertSucceeds(updateDoc(chatRef, { [`members.${MEMBER}.lastReadAt`]: now }));
+    await assertFails(updateDoc(chatRef, { [`members.${OWNER}.lastReadAt`]: now }));
+    await assertFails(updateDoc(chatRef, { [`members.${MEMBER}.role`]: 'admin' }));
+    await assertFails(updateDoc(chatRef, { memberIds: [OWNER, MEMBER, STRANGER] }));
+  });
+
+  it('lets owners and admins add members', async () => {
+    await assertSucceeds(updateDoc(doc(dbAs(OWNER), 'groupChats', 'chat1'), {
+      [`members.${REQUESTER}`]: member(REQUESTER, 'member'),
+      memberIds: [OWNER, MEMBER, REQUESTER],
+    }));
+  });
+
+  it('keeps roles and read-only state with the owner, letting admins manage plain members and settings', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await updateDoc(doc(context.firestore(), 'groupChats', 'chat1'), {
+        [`members.${MEMBER}.role`]: 'admin',
+        [`members.${REQUESTER}`]: member(REQUESTER, 'member'),
+        memberIds: [OWNER, MEMBER, REQUESTER],
+      });
+    });
+    const chatRef = (uid: string) => doc(dbAs(uid), 'groupChats', 'chat1');
+
+    await assertFails(updateDoc(chatRef(MEMBER), { [`members.${MEMBER}.role`]: 'owner' }));
+    await assertFails(updateDoc(chatRef(MEMBER), { [`members.${OWNER}.role`]: 'member' }));
+    await assertFails(updateDoc(chatRef(MEMBER), { [`members.${REQUESTER}.role`]: 'admin' }));
+    await assertFails(updateDoc(chatRef(MEMBER), { isReadOnly: true }));
+    await assertSucceeds(updateDoc(chatRef(MEMBER), { 'settings.allowInvites': false }));
+    await assertFails(updateDoc(chatRef(MEMBER), { [`members.${OWNER}`]: deleteField(), memberIds: [MEMBER, REQUESTER] }));
+    await assertSucceeds(updateDoc(chatRef(MEMBER), { [`members.${REQUESTER}`]: deleteField(), memberIds: [OWNER, MEMBER] }));
+    await assertSucceeds(updateDoc(chatRef(OWNER), { [`members.${MEMBER}.role`]: 'member' }));
+  });
+
+  it('lets members leave the chat and project with a notice, but not the owner', async () => {
+    const leave = (uid: string, remaining: string[]) => {
+      const batch = writeBatch(dbAs(uid));
+      batch.update(doc(dbAs(uid), 'groupChats', 'chat1'), { [`members.${uid}`]: deleteField(), memberIds: remaining });
+      batch.update(doc(dbAs(uid), 'projects', 'project1'), { memberIds: remaining });
+      batch.set(doc(collection(dbAs(uid), 'groupChats', 'chat1', 'messages')), {
+        senderId: 'system',
+        senderName: 'System',
+        text: `${uid} left the chat.`,
+        timestamp: now,
+        type: 'system',
+      });
+      return batch.commit();
+    };
+
+    await assertFails(leave(OWNER, [MEMBER]));
+    await assertSucceeds(leave(MEMBER, [OWNER]));
+  });
+
+  it('only lets moderators post system notices', async () => {
+    const notice = { senderId: 'system', senderName: 'System', text: 'Member is now an admin.', timestamp: now, type: 'system' };
+
+    await assertFails(addDoc(collection(dbAs(MEMBER), 'groupChats', 'chat1', 'messages'), notice));
+    await assertSucceeds(addDoc(collection(dbAs(OWNER), 'groupChats', 'chat1', 'messages'), notice));
+  });
+
+  it('lets moderators announce status changes in read-only chats', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await updateDoc(doc(context.firestore(), 'groupChats', 'chat1'), { isReadOnly: true });
+    });
+    const notice = { senderId: 'system', senderName: 'System', text: 'Owner marked the project finished.', timestamp: now, type: 'system' };
+
+    await assertSucceeds(addDoc(collection(dbAs(OWNER), 'groupChats', 'chat1', 'messages'), notice));
+    await assertFails(addDoc(collection(dbAs(MEMBER), 'groupChats', 'chat1', 'messages'), notice));
+  });
+
+  it('lets senders refresh the search index along with an edit', async () => {
+    const messageRef = (uid: string) => doc(dbAs(uid), 'groupChats', 'chat1', 'messages', 'memberMessage');
+    const edit = { text: 'Hi team', edited: true, editedAt: now, searchTokens: ['hi', 'te', 'tea', 'team'] };
+
+    await assertSucceeds(updateDoc(messageRef(MEMBER), edit));
+    await assertFails(updateDoc(messageRef(OWNER), { searchTokens: ['spam'] }));
+  });
+
+  it('only lets members add or take back their own reactions', async () => {
+    const messageRef = (uid: string) => doc(dbAs(uid), 'groupChats', 'chat1', 'messages', 'ownerMessage');
+
+    await assertSucceeds(updateDoc(messageRef(MEMBER), { 'reactions.👍': [MEMBER] }));
+    await assertFails(updateDoc(messageRef(OWNER), { 'reactions.👍': [] }));
+    await assertFails(updateDoc(messageRef(MEMBER), { 'reactions.👍': [MEMBER, OWNER] }));
+    await assertFails(updateDoc(messageRef(MEMBER), { 'reactions.🍕': [MEMBER] }));
+    await assertFails(updateDoc(messageRef(STRANGER), { 'reactions.🎉': [STRANGER] }));
+    await assertSucceeds(updateDoc(messageRef(OWNER), { 'reactions.👍': [MEMBER, OWNER] }));
+    await assertSucceeds(updateDoc(messageRef(MEMBER), { 'reactions.👍': [OWNER] }));
+  });
+
+  it('only lets members publish their own typing state', async () => {
+    const typingRef = (uid: string, userId: string) => doc(dbAs(uid), 'groupChats', 'chat1', 'typing', userId);
+    const typing = { displayName: 'Member', updatedAt: now };
+
+    await assertSucceeds(setDoc(typingRef(MEMBER, MEMBER), typing));
+    await assertSucceeds(getDoc(typingRef(OWNER, MEMBER)));
+    await assertFails(setDoc(typingRef(MEMBER, OWNER), typing));
+    await assertFails(setDoc(typingRef(STRANGER, STRANGER), typing));
+    await assertFails(getDoc(typingRef(STRANGER, MEMBER)));
+    await assertSucceeds(deleteDoc(typingRef(MEMBER, MEMBER)));
+  });
+
+  it('only lets senders edit, and senders or moderators delete', async () => {
+    const messageRef = (uid: string, messageId: string) =>
+      doc(dbAs(uid), 'groupChats', 'chat1', 'messages', messageId);
+    const tombstone = (uid: string) => ({ text: '', deleted: true, deletedAt: now, deletedBy: uid });
+
+    await assertSucceeds(updateDoc(messageRef(MEMBER, 'memberMessage'), { text: 'Hi everyone', edited: true, editedAt: now }));
+    await assertFails(updateDoc(messageRef(OWNER, 'memberMessage'), { text: 'Rewritten', edited: true, editedAt: now }));
+    await assertFails(updateDoc(messageRef(MEMBER, 'ownerMessage'), tombstone(MEMBER)));
+    await assertSucceeds(updateDoc(messageRef(OWNER, 'memberMessage'), tombstone(OWNER)));
+  });
+});
+
+describe('direct chats', () => {
+  const CHAT_ID = [MEMBER, STRANGER].sort().join('_');
+  const directChat = { participants: [MEMBER, STRANGER].sort(), createdAt: now, updatedAt: now };
+
+  it('only opens a chat under the pair ID, as one of the pair', async () => {
+    await assertSucceeds(setDoc(doc(dbAs(MEMBER), 'directChats', CHAT_ID), directChat));
+    await assertFails(setDoc(doc(dbAs(OWNER), 'directChats', CHAT_ID), directChat));
+    await assertFails(setDoc(doc(dbAs(MEMBER), 'directChats', 'other_id'), directChat));
+  });
+
+  it('only lets the pair read and send messages, as themselves', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'directChats', CHAT_ID), directChat);
+    });
+    const message = (senderId: string) => ({ senderId, senderName: senderId, text: 'Hi', timestamp: now, type: 'text' });
+
+    await assertSucceeds(getDoc(doc(dbAs(STRANGER), 'directChats', CHAT_ID)));
+    await assertFails(getDoc(doc(dbAs(OWNER), 'directChats', CHAT_ID)));
+    await assertSucceeds(addDoc(collection(dbAs(MEMBER), 'directChats', CHAT_ID, 'messages'), message(MEMBER)));
+    await assertFails(addDoc(collection(dbAs(MEMBER), 'directChats', CHAT_ID, 'messages'), message(STRANGER)));
+    await assertFails(addDoc(collection(dbAs(OWNER), 'directChats', CHAT_ID, 'messages'), message(OWNER)));
+  });
+});
+
+describe('project requests', () => {
+  it('only lets the requester and project owner read a request', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(REQUESTER), 'projectRequests', 'request1')));
+    await assertSucceeds(getDoc(doc(dbAs(OWNER), 'projectRequests', 'request1')));
+    await assertFails(getDoc(doc(dbAs(STRANGER), 'projectRequests', 'request1')));
+  });
+
+  it('only accepts pending requests addressed to the real owner of an open project', async () => {
+    const requests = collection(dbAs(STRANGER), 'projectRequests');
+    const request = { fromUserId: STRANGER, toUserId: OWNER, projectId: 'project1', status: 'pending', type: 'join_project' };
+
+    await assertSucceeds(addDoc(requests, request));
+    await assertFails(addDoc(requests, { ...request, toUserId: MEMBER }));
+    await assertFails(addDoc(requests, { ...request, status: 'accepted' }));
+    await assertFails(addDoc(requests, { ...request, fromUserId: REQUESTER }));
+
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await updateDoc(doc(context.firestore(), 'projects', 'project1'), { status: 'full' });
+    });
+    await assertFails(addDoc(requests, request));
+  });
+
+  it('only lets the project owner accept or decline', async () => {
+    await assertFails(updateDoc(doc(dbAs(REQUESTER), 'projectRequests', 'request1'), { status: 'accepted' }));
+    await assertFails(updateDoc(doc(dbAs(STRANGER), 'projectRequests', 'request1'), { status: 'declined' }));
+    await assertSucceeds(updateDoc(doc(dbAs(OWNER), 'projectRequests', 'request1'), { status: 'accepted' }));
+    await assertFails(updateDoc(doc(dbAs(OWNER), 'projectRequests', 'request1'), { status: 'declined' }));
+  });
+
+  it('only lets the requester withdraw a pending request', async () => {
+    await assertFails(updateDoc(doc(dbAs(OWNER), 'projectRequests', 'request1'), { status: 'withdrawn' }));
+    await assertSucceeds(updateDoc(doc(dbAs(REQUESTER), 'projectRequests', 'request1'), { status: 'withdrawn' }));
+    await assertFails(updateDoc(doc(dbAs(OWNER), 'projectRequests', 'request1'), { status: 'accepted' }));
+  });
+
+  it('only lets the project owner give a decline reason', async () => {
+    await assertFails(updateDoc(doc(dbAs(REQUESTER), 'projectRequests', 'request1'), { declineReason: 'Changed my mind' }));
+    await assertSucceeds(updateDoc(doc(dbAs(OWNER), 'projectRequests', 'request1'), { status: 'declined', declineReason: 'Team is set' }));
+  });
+});
+
+describe('project invites', () => {
+  const INVITE_ID = `project1_${STRANGER}`;
+  const invite = { fromUserId: OWNER, toUserId: STRANGER, projectId: 'project1', status: 'pending', type: 'invite' };
+
+  const seedInvite = (status: string) =>
+    testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'projectRequests', INVITE_ID), { ...invite, status });
+    });
+
+  it('only lets the project owner invite non-members, keyed by project and invitee', async () => {
+    await assertSucceeds(setDoc(doc(dbAs(OWNER), 'projectRequests', INVITE_ID), invite));
+    await assertFails(setDoc(doc(dbAs(OWNER), 'projectRequests', 'invite1'), invite));
+    await assertFails(setDoc(doc(dbAs(MEMBER), 'projectRequests', INVITE_ID), { ...invite, fromUserId: MEMBER }));
+    await assertFails(setDoc(doc(dbAs(OWNER), 'projectRequests', `project1_${MEMBER}`), { ...invite, toUserId: MEMBER }));
+  });
+
+  it("lets the owner check for the invitee's pending join request", async () => {
+    const pendingFrom = (uid: string, toUserId?: string) => query(
+      collection(dbAs(OWNER), 'projectRequests'),
+      where('fromUserId', '==', uid),
+      ...(toUserId ? [where('toUserId', '==', toUserId)] : []),
+      where('projectId', '==', 'project1'),
+      where('type', '==', 'join_project'),
+      where('status', '==', 'pending')
+    );
+
+    await assertSucceeds(getDocs(pendingFrom(REQUESTER, OWNER)));
+    await assertFails(getDocs(pendingFrom(REQUESTER)));
+  });
+
+  it('refuses invites once the group chat turns them off', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await updateDoc(doc(context.firestore(), 'groupChats', 'chat1'), { 'settings.allowInvites': false });
+    });
+
+    await assertFails(setDoc(doc(dbAs(OWNER), 'projectRequests', INVITE_ID), invite));
+  });
+
+  it('only lets the invitee join the chat and project in the write that accepts the invite', async () => {
+    await seedInvite('pending');
+    const join = (uid: string, role: 'member' | 'admin') => {
+      const batch = writeBatch(dbAs(uid));
+      batch.update(doc(dbAs(uid), 'projectRequests', INVITE_ID), { status: 'accepted' });
+      batch.update(doc(dbAs(uid), 'groupChats', 'chat1'), {
+        [`members.${uid}`]: member(uid, role),
+        memberIds: [OWNER, MEMBER, uid],
+      });
+      batch.update(doc(dbAs(uid), 'projects', 'project1'), { memberIds: [OWNER, MEMBER, uid] });
+      batch.set(doc(collection(dbAs(uid), 'groupChats', 'chat1', 'messages')), {
+        senderId: 'system',
+        senderName: 'System',
+        text: `${uid} joined at Owner's invitation.`,
+        timestamp: now,
+        type: 'system',
+      });
+      return batch.commit();
+    };
+
+    await assertSucceeds(getDoc(doc(dbAs(STRANGER), 'groupChats', 'chat1')));
+    await assertFails(updateDoc(doc(dbAs(STRANGER), 'groupChats', 'chat1'), {
+      [`members.${STRANGER}`]: member(STRANGER, 'member'),
+      memberIds: [OWNER, MEMBER, STRANGER],
+    }));
+    await assertFails(join(REQUESTER, 'member'));
+    await assertFails(join(STRANGER, 'admin'));
+    await assertSucceeds(join(STRANGER, 'member'));
+  });
+
+  it('lets the invitee decline and the owner withdraw or re-send', async () => {
+    await seedInvite('pending');
+    await assertFails(updateDoc(doc(dbAs(OWNER), 'projectRequests', INVITE_ID), { status: 'accepted' }));
+    await assertSucceeds(updateDoc(doc(dbAs(STRANGER), 'projectRequests', INVITE_ID), { status: 'declined' }));
+    await assertFails(setDoc(doc(dbAs(STRANGER), 'projectRequests', INVITE_ID), invite));
+    await assertSucceeds(setDoc(doc(dbAs(OWNER), 'projectRequests', INVITE_ID), invite));
+    await assertSucceeds(updateDoc(doc(dbAs(OWNER), 'projectRequests', INVITE_ID), { status: 'withdrawn' }));
+  });
+
+  it('moves pending invites to the new owner along with the project', async () => {
+    await seedInvite('pending');
+    const transfer = (inviteOwner: string) => {
+      const batch = writeBatch(dbAs(OWNER));
+      batch.update(doc(dbAs(OWNER), 'projects', 'project1'), { ownerId: MEMBER, ownerName: MEMBER });
+      batch.update(doc(dbAs(OWNER), 'projectRequests', INVITE_ID), {
+        fromUserId: inviteOwner,
+        fromUserName: inviteOwner,
+        updatedAt: now,
+      });
+      return batch.commit();
+    };
+
+    await assertFails(updateDoc(doc(dbAs(OWNER), 'projectRequests', INVITE_ID), { fromUserId: MEMBER }));
+    await assertFails(transfer(STRANGER));
+    await assertSucceeds(transfer(MEMBER));
+    await assertSucceeds(updateDoc(doc(dbAs(MEMBER), 'projectRequests', INVITE_ID), { status: 'withdrawn' }));
+  });
+});
+
+describe('request notes', () => {
+  const note = (ownerId: string) => ({ requestId: 'request1', ownerId, note: 'Strong portfolio', updatedAt: now });
+
+  it('only lets the project owner write notes on a request', async () => {
+    await assertSucceeds(setDoc(doc(dbAs(OWNER), 'requestNotes', 'request1'), note(OWNER)));
+    await assertFails(setDoc(doc(dbAs(REQUESTER), 'requestNotes', 'request1'), note(REQUESTER)));
+    await assertFails(setDoc(doc(dbAs(STRANGER), 'requestNotes', 'request1'), note(OWNER)));
+  });
+
+  it('keeps notes hidden from the requester', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'requestNotes', 'request1'), note(OWNER));
+    });
+
+    await assertSucceeds(getDoc(doc(dbAs(OWNER), 'requestNotes', 'request1')));
+    await assertFails(getDoc(doc(dbAs(REQUESTER), 'requestNotes', 'request1')));
+    await assertSucceeds(getDocs(query(collection(dbAs(OWNER), 'requestNotes'), where('ownerId', '==', OWNER))));
+    await assertFails(deleteDoc(doc(dbAs(REQUESTER), 'requestNotes', 'request1')));
+  });
+});
+
+describe('request DMs', () => {
+  it('only lets participants read and message', async () => {
+    const message = (senderId: string) => ({ senderId, senderName: senderId, text: 'Hello', timestamp: now, type: 'text' });
+
+    await assertSucceeds(getDoc(doc(dbAs(REQUESTER), 'requestDMs', 'dm1')));
+    await assertFails(getDoc(doc(dbAs(MEMBER), 'requestDMs', 'dm1')));
+    await assertSucceeds(addDoc(collection(dbAs(REQUESTER), 'requestDMs', 'dm1', 'messages'), message(REQUESTER)));
+    await assertFails(addDoc(collection(dbAs(STRANGER), 'requestDMs', 'dm1', 'messages'), message(STRANGER)));
+    await assertFails(addDoc(collection(dbAs(REQUESTER), 'requestDMs', 'dm1', 'messages'), message(OWNER)));
+  });
+
+  it('stops messages once the DM is closed, for good', async () => {
+    const message = { senderId: REQUESTER, senderName: REQUESTER, text: 'Still there?', timestamp: now, type: 'text' };
+    await updateDoc(doc(dbAs(OWNER), 'requestDMs', 'dm1'), { isActive: false });
+
+    await assertFails(addDoc(collection(dbAs(REQUESTER), 'requestDMs', 'dm1', 'messages'), message));
+    await assertFails(updateDoc(doc(dbAs(REQUESTER), 'requestDMs', 'dm1'), { isActive: true }));
+  });
+
+  it('only accepts system notices along with opening the DM or declining the request', async () => {
+    const notice = { senderId: 'system', senderName: 'System', text: 'This request was declined: Team is set', timestamp: now, type: 'system' };
+
+    await assertFails(addDoc(collection(dbAs(REQUESTER), 'requestDMs', 'dm1', 'messages'), notice));
+    await assertFails(addDoc(collection(dbAs(OWNER), 'requestDMs', 'dm1', 'messages'), notice));
+
+    const open = writeBatch(dbAs(OWNER));
+    open.set(doc(dbAs(OWNER), 'requestDMs', 'dm2'), { requestId: 'request1', participants: [OWNER, REQUESTER].sort(), isActive: true });
+    open.set(doc(collection(dbAs(OWNER), 'requestDMs', 'dm2', 'messages')), { ...notice, text: 'This is a temporary chat.' });
+    await assertSucceeds(open.commit());
+
+    const decline = (uid: string) => {
+      const batch = writeBatch(dbAs(uid));
+      batch.update(doc(dbAs(uid), 'projectRequests', 'request1'), { status: 'declined', declineReason: 'Team is set' });
+      batch.set(doc(collection(dbAs(uid), 'requestDMs', 'dm1', 'messages')), notice);
+      batch.update(doc(dbAs(uid), 'requestDMs', 'dm1'), { isActive: false });
+      return batch.commit();
+    };
+    await assertFails(decline(REQUESTER));
+    await assertSucceeds(decline(OWNER));
+  });
+
+  it('only creates DMs between the requester and the project owner', async () => {
+    const dm = (participants: string[]) => ({ requestId: 'request1', participants, isActive: true });
+
+    await assertSucceeds(setDoc(doc(dbAs(OWNER), 'requestDMs', 'dm2'), dm([OWNER, REQUESTER].sort())));
+    await assertFails(setDoc(doc(dbAs(STRANGER), 'requestDMs', 'dm3'), dm([OWNER, STRANGER].sort())));
+  });
+
+  it('does not let participants change who is in the DM', async () => {
+    await assertSucceeds(updateDoc(doc(dbAs(OWNER), 'requestDMs', 'dm1'), { isActive: false }));
+    await assertFails(updateDoc(doc(dbAs(OWNER), 'requestDMs', 'dm1'), { participants: [OWNER, STRANGER] }));
+  });
+
+  it('only lets participants publish their own typing state', async () => {
+    const typing = { displayName: 'Requester', updatedAt: now };
+
+    await assertSucceeds(setDoc(doc(dbAs(REQUESTER), 'requestDMs', 'dm1', 'typing', REQUESTER), typing));
+    await assertFails(setDoc(doc(dbAs(REQUESTER), 'requestDMs', 'dm1', 'typing', OWNER), typing));
+    await assertFails(setDoc(doc(dbAs(STRANGER), 'requestDMs', 'dm1', 'typing', STRANGER), typing));
+    await assertFails(setDoc(doc(dbAs(REQUESTER), 'requestDMs', 'dm1', 'typing', REQUESTER), { ...typing, text: 'Hel' }));
+  });
+});
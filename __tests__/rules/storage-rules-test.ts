@@ -0,0 +1,89 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { doc, setDoc } from 'firebase/firestore';
+import { deleteObject, getBytes, ref, uploadBytes } from 'firebase/storage';
+
+// Run with `npm run test:rules`, which starts the Storage and Firestore emulators first
+let testEnv: RulesTestEnvironment;
+
+const OWNER = 'owner';
+const MEMBER = 'member';
+const STRANGER = 'stranger';
+
+const ATTACHMENT_PATH = `chatAttachments/chat1/${MEMBER}/1_notes.pdf`;
+const bytes = new Uint8Array([1, 2, 3, 4]);
+
+const storageAs = (uid: string) => testEnv.authenticatedContext(uid).storage();
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-278project',
+    firestore: {
+      rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8'),
+    },
+    storage: {
+      rules: readFileSync(resolve(__dirname, '../../storage.rules'), 'utf8'),
+    },
+  });
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.clearStorage();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore(), 'groupChats', 'chat1'), {
+      memberIds: [OWNER, MEMBER],
+      members: { [OWNER]: { role: 'owner' }, [MEMBER]: { role: 'member' } },
+    });
+    await uploadBytes(ref(context.storage(), ATTACHMENT_PATH), bytes, { contentType: 'application/pdf' });
+    await uploadBytes(ref(context.storage(), `profile_pictures/${MEMBER}/1`), bytes, { contentType: 'image/jpeg' });
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+describe('profile pictures', () => {
+  it('only lets users upload images to their own folder', async () => {
+    await assertSucceeds(uploadBytes(ref(storageAs(STRANGER), `profile_pictures/${STRANGER}/2`), bytes, { contentType: 'image/png' }));
+    await assertFails(uploadBytes(ref(storageAs(STRANGER), `profile_pictures/${MEMBER}/2`), bytes, { contentType: 'image/png' }));
+    await assertFails(uploadBytes(ref(storageAs(STRANGER), `profile_pictures/${STRANGER}/3`), bytes, { contentType: 'text/plain' }));
+  });
+
+  it('lets signed-in users see profile pictures', async () => {
+    await assertSucceeds(getBytes(ref(storageAs(STRANGER), `profile_pictures/${MEMBER}/1`)));
+    await assertFails(getBytes(ref(testEnv.unauthenticatedContext().storage(), `profile_pictures/${MEMBER}/1`)));
+  });
+});
+
+describe('chat attachments', () => {
+  it('only lets chat members read attachments', async () => {
+    await assertSucceeds(getBytes(ref(storageAs(MEMBER), ATTACHMENT_PATH)));
+    await assertFails(getBytes(ref(storageAs(STRANGER), ATTACHMENT_PATH)));
+  });
+
+  it('only lets members upload into their own folder of the chat', async () => {
+    await assertSucceeds(uploadBytes(ref(storageAs(MEMBER), `chatAttachments/chat1/${MEMBER}/2_photo.jpg`), bytes));
+    await assertFails(uploadBytes(ref(storageAs(MEMBER), `chatAttachments/chat1/${STRANGER}/2_photo.jpg`), bytes));
+    await assertFails(uploadBytes(ref(storageAs(STRANGER), `chatAttachments/chat1/${STRANGER}/2_photo.jpg`), bytes));
+  });
+
+  it('only lets the uploader or a moderator delete an attachment', async () => {
+    const ownerFile = `chatAttachments/chat1/${OWNER}/2_plan.pdf`;
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await uploadBytes(ref(context.storage(), ownerFile), bytes, { contentType: 'application/pdf' });
+    });
+
+    await assertFails(deleteObject(ref(storageAs(STRANGER), ATTACHMENT_PATH)));
+    await assertFails(deleteObject(ref(storageAs(MEMBER), ownerFile)));
+    await assertSucceeds(deleteObject(ref(storageAs(MEMBER), ATTACHMENT_PATH)));
+    await assertSucceeds(deleteObject(ref(storageAs(OWNER), ownerFile)));
+  });
+});
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { StyleSheet, FlatList, View, Image, Pressable, ActivityIndicator, Animated } from 'react-native';
 import {
   Button,
@@ -10,19 +10,21 @@ import {
   Divider,
   useTheme,
   Chip,
+  IconButton,
 } from 'react-native-paper';
 import { ThemedView } from '@/components/ThemedView';
 import { ChatDetail } from '@/components/chat/ChatDetail';
 import { ProjectRequests, RequestItem } from '@/components/chat/ChatRequests';
 import { useIsFocused } from '@react-navigation/native';
+import { router, useLocalSearchParams } from 'expo-router';
 import { useAuth } from '../_layout';
-import { db } from '../../firebase';
+import { Timestamp } from 'firebase/firestore';
 
 // Type definitions
 type ChatParticipantStatus = 'conversation' | 'reachedOut' | 'none';
-type ChatType = 'group' | 'request_dm';
+type ChatType = 'group' | 'request_dm' | 'direct';
 
-import { ChatService, FirebaseChatMessage, FirebaseGroupChat, RequestDM } from '@/services/chatService';
+import { ChatService, DirectChat, FirebaseGroupChat, MAX_UNREAD_COUNT, MentionNotice, RequestDM } from '@/services/chatService';
 
 export interface ChatItem {
   id: string;
@@ -36,6 +38,8 @@ export interface ChatItem {
   lastMessageTime?: Date;
   memberCount?: number;
   requestId?: string; // For request DMs
+  otherUserId?: string; // The other participant of a request DM or direct chat
+  isReadOnly?: boolean; // Finished or archived project chats
 }
 
 // Helper function to convert Firebase group chat to ChatItem
@@ -61,9 +65,10 @@ const convertFirebaseGroupChatToChatItem = (
     newMessages: 0, // Will be updated separately
     status,
     type: 'group',
-    projectId: firebaseChat.id,
+    projectId: firebaseChat.projectId,
     lastMessageTime: firebaseChat.lastMessage?.timestamp.toDate() || firebaseChat.updatedAt.toDate(),
     memberCount: Object.keys(firebaseChat.members).length,
+    isReadOnly: firebaseChat.isReadOnly || false,
   };
 };
 
@@ -88,16 +93,54 @@ const convertRequestDMToChatItem = (
     projectId: requestDM.projectContext.projectId,
     lastMessageTime: requestDM.lastMessage?.timestamp.toDate() || requestDM.updatedAt.toDate(),
     requestId: requestDM.requestId,
+    otherUserId: otherParticipantId,
+    isReadOnly: !requestDM.isActive, // Closed once the request is resolved
   };
 };
 
+// Helper function to convert a direct chat to ChatItem
+const convertDirectChatToChatItem = (
+  directChat: DirectChat,
+  currentUserId: string
+): ChatItem => {
+  const otherParticipantId = directChat.participants.find(id => id !== currentUserId);
+  const otherParticipant = otherParticipantId ? directChat.participantDetails[otherParticipantId] : null;
+
+  return {
+    id: directChat.id,
+    name: otherParticipant?.displayName || 'Unknown User',
+    participants: directChat.lastMessage?.text || 'Direct message',
+    avatar: null,
+    newMessages: 0, // Will be updated separately
+    status: 'conversation',
+    type: 'direct',
+    projectId: '',
+    lastMessageTime: directChat.lastMessage?.timestamp.toDate() || directChat.updatedAt.toDate(),
+    otherUserId: otherParticipantId,
+  };
+};
+
+// Read cursor for the current user in a chat, used to count unread messages
+interface ChatReadCursor {
+  id: string;
+  type: ChatType;
+  since: Timestamp; // Last read, or when the user joined if they never opened the chat
+}
+
 export default function ChatScreen(): JSX.Element {
-  const [chats, setChats] = useState<ChatItem[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
+  const [groupChats, setGroupChats] = useState<FirebaseGroupChat[]>([]);
+  const [requestDMs, setRequestDMs] = useState<RequestDM[]>([]);
+  const [directChats, setDirectChats] = useState<DirectChat[]>([]);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [loadingGroupChats, setLoadingGroupChats] = useState<boolean>(true);
+  const [loadingRequestDMs, setLoadingRequestDMs] = useState<boolean>(true);
+  const [loadingDirectChats, setLoadingDirectChats] = useState<boolean>(true);
   const [selectedChat, setSelectedChat] = useState<ChatItem | null>(null);
+  const [focusMessageId, setFocusMessageId] = useState<string | undefined>(); // Message to jump to, e.g. a search hit
   const [showRequests, setShowRequests] = useState<boolean>(false);
   const [requests, setRequests] = useState<Record<string, RequestItem>>({});
   const [pendingRequestCount, setPendingRequestCount] = useState<number>(0);
+  const [mentions, setMentions] = useState<MentionNotice[]>([]);
   const theme = useTheme();
 
   // Animation for the notification badge
@@ -109,161 +152,137 @@ export default function ChatScreen(): JSX.Element {
   const unsubscribeRefs = useRef<{
     groupChats?: () => void;
     requestDMs?: () => void;
+    directChats?: () => void;
     userRequests?: () => void;
-    messageSubscriptions: Record<string, () => void>;
+    mentions?: () => void;
+    unreadSubscriptions: Record<string, { cursorKey: string; unsubscribe: () => void }>;
   }>({
-    messageSubscriptions: {}
+    unreadSubscriptions: {}
   });
 
-  // Function to update unread count for a specific chat
-  const updateChatUnreadCount = async (chatId: string, chatType: ChatType): Promise<void> => {
-    if (!currentUserId) return;
+  const loading = loadingGroupChats || loadingRequestDMs || loadingDirectChats;
 
-    try {
-      let unreadCount = 0;
-      
-      if (chatType === 'group') {
-        // Get the current user's last read message ID from Firebase
-        const chatDoc = await ChatService.getGroupChatById(chatId);
-        if (chatDoc) {
-          const currentUserMember = chatDoc.members[currentUserId];
-          unreadCount = await ChatService.getUnreadMessageCount(
-            chatId,
-            currentUserId,
-            currentUserMember?.lastReadMessageId
-          );
-        }
-      } else if (chatType === 'request_dm') {
-        // For request DMs, we'll implement a simple unread count based on recent messages
-        // This is a simplified approach - you could enhance this with proper read tracking
-        unreadCount = 0; // For now, keeping it simple
-      }
+  // Combine group chats and request DMs into list items with their unread counts
+  const chats = useMemo<ChatItem[]>(() => {
+    const groupChatItems = groupChats.map(chat => convertFirebaseGroupChatToChatItem(chat, currentUserId));
+    const requestDMItems = requestDMs.map(dm => convertRequestDMToChatItem(dm, currentUserId));
+    const directChatItems = directChats.map(dm => convertDirectChatToChatItem(dm, currentUserId));
+    return [...groupChatItems, ...requestDMItems, ...directChatItems].map(chat => ({
+      ...chat,
+      newMessages: unreadCounts[chat.id] || 0,
+    }));
+  }, [groupChats, requestDMs, directChats, unreadCounts, currentUserId]);
+
+  // The current user's read cursor in every chat, taken from the chat docs themselves
+  const readCursors = useMemo<ChatReadCursor[]>(() => [
+    ...groupChats.map(chat => ({
+      id: chat.id,
+      type: 'group' as ChatType,
+      since: chat.members[currentUserId]?.lastReadAt || chat.members[currentUserId]?.joinedAt || chat.createdAt,
+    })),
+    ...requestDMs.map(dm => ({
+      id: dm.id,
+      type: 'request_dm' as ChatType,
+      since: dm.participantDetails[currentUserId]?.lastReadAt || dm.createdAt,
+    })),
+    ...directChats.map(dm => ({
+      id: dm.id,
+      type: 'direct' as ChatType,
+      since: dm.participantDetails[currentUserId]?.lastReadAt || dm.createdAt,
+    })),
+  ], [groupChats, requestDMs, directChats, currentUserId]);
 
-      // Update the chat in our state
-      setChats(prevChats => 
-        prevChats.map(c => 
-          c.id === chatId 
-            ? { ...c, newMessages: unreadCount }
-            : c
-        )
-      );
-    } catch (error) {
-      console.error('Error updating unread count:', error);
-    }
-  };
+  // Load chats from Firebase
+  useEffect(() => {
+    if (!currentUserId) return;
 
-  // Subscribe to message updates for all chats to update unread counts
-  const subscribeToMessageUpdates = (chatItems: ChatItem[]) => {
-    // Clean up existing subscriptions
-    Object.values(unsubscribeRefs.current.messageSubscriptions).forEach(unsub => unsub());
-    unsubscribeRefs.current.messageSubscriptions = {};
+    setLoadingGroupChats(true);
+    setLoadingRequestDMs(true);
+    setLoadingDirectChats(true);
 
-    // Subscribe to messages for each chat
-    chatItems.forEach(chatItem => {
-      if (chatItem.type === 'group') {
-        const unsubscribe = ChatService.subscribeToGroupChatMessages(
-          chatItem.id,
-          async (messages: FirebaseChatMessage[]) => {
-            // Only update unread count if this chat is not currently selected
-            if (!selectedChat || selectedChat.id !== chatItem.id) {
-              await updateChatUnreadCount(chatItem.id, 'group');
-            }
-          }
-        );
-        unsubscribeRefs.current.messageSubscriptions[chatItem.id] = unsubscribe;
-      } else if (chatItem.type === 'request_dm') {
-        const unsubscribe = ChatService.subscribeToRequestDMMessages(
-          chatItem.id,
-          async (messages) => {
-            // Only update unread count if this chat is not currently selected
-            if (!selectedChat || selectedChat.id !== chatItem.id) {
-              await updateChatUnreadCount(chatItem.id, 'request_dm');
-            }
-          }
-        );
-        unsubscribeRefs.current.messageSubscriptions[chatItem.id] = unsubscribe;
+    // Set up real-time subscription for group chats
+    unsubscribeRefs.current.groupChats = ChatService.subscribeToUserGroupChats(
+      currentUserId,
+      (firebaseChats: FirebaseGroupChat[]) => {
+        setGroupChats(firebaseChats);
+        setLoadingGroupChats(false);
       }
-    });
-  };
+    );
 
-  // Load chats from Firebase
-  useEffect(() => {
-    const loadChats = async () => {
-      if (!currentUserId) return;
-      
-      setLoading(true);
-      
-      // Set up real-time subscription for group chats
-      const groupChatsUnsubscribe = ChatService.subscribeToUserGroupChats(
-        currentUserId,
-        async (firebaseChats: FirebaseGroupChat[]) => {
-          const groupChatItems: ChatItem[] = [];
-          
-          // Convert Firebase group chats to ChatItems and get unread counts
-          for (const firebaseChat of firebaseChats) {
-            const chatItem = convertFirebaseGroupChatToChatItem(firebaseChat, currentUserId);
-            
-            // Get unread message count
-            const currentUserMember = firebaseChat.members[currentUserId];
-            const unreadCount = await ChatService.getUnreadMessageCount(
-              firebaseChat.id,
-              currentUserId,
-              currentUserMember?.lastReadMessageId
-            );
-            
-            chatItem.newMessages = unreadCount;
-            groupChatItems.push(chatItem);
-          }
-          
-          // Set up real-time subscription for request DMs
-          const requestDMsUnsubscribe = ChatService.subscribeToUserRequestDMs(
-            currentUserId,
-            async (requestDMs: RequestDM[]) => {
-              const requestDMItems: ChatItem[] = [];
-              
-              // Convert request DMs to ChatItems
-              for (const requestDM of requestDMs) {
-                const chatItem = convertRequestDMToChatItem(requestDM, currentUserId);
-                // For simplicity, we'll set unread count to 0 for request DMs
-                // You could implement proper unread tracking later
-                chatItem.newMessages = 0;
-                requestDMItems.push(chatItem);
-              }
-              
-              // Combine group chats and request DMs
-              const allChats = [...groupChatItems, ...requestDMItems];
-              setChats(allChats);
-              setLoading(false);
-
-              // Subscribe to message updates for all chats
-              subscribeToMessageUpdates(allChats);
-            }
-          );
-          
-          unsubscribeRefs.current.requestDMs = requestDMsUnsubscribe;
-        }
-      );
+    // Set up real-time subscription for request DMs
+    unsubscribeRefs.current.requestDMs = ChatService.subscribeToUserRequestDMs(
+      currentUserId,
+      (dms: RequestDM[]) => {
+        setRequestDMs(dms);
+        setLoadingRequestDMs(false);
+      }
+    );
 
-      unsubscribeRefs.current.groupChats = groupChatsUnsubscribe;
-    };
+    // Set up real-time subscription for direct chats
+    unsubscribeRefs.current.directChats = ChatService.subscribeToUserDirectChats(
+      currentUserId,
+      (chats: DirectChat[]) => {
+        setDirectChats(chats);
+        setLoadingDirectChats(false);
+      }
+    );
 
-    loadChats();
+    // Set up real-time subscription for mentions of the user
+    unsubscribeRefs.current.mentions = ChatService.subscribeToMentions(currentUserId, setMentions);
+
+    const subscriptions = unsubscribeRefs.current;
 
     // Cleanup subscriptions on unmount
     return () => {
-      if (unsubscribeRefs.current.groupChats) {
-        unsubscribeRefs.current.groupChats();
-      }
-      if (unsubscribeRefs.current.requestDMs) {
-        unsubscribeRefs.current.requestDMs();
-      }
-      if (unsubscribeRefs.current.userRequests) {
-        unsubscribeRefs.current.userRequests();
-      }
-      Object.values(unsubscribeRefs.current.messageSubscriptions).forEach(unsub => unsub());
+      subscriptions.groupChats?.();
+      subscriptions.requestDMs?.();
+      subscriptions.directChats?.();
+      subscriptions.mentions?.();
+      Object.values(subscriptions.unreadSubscriptions).forEach(sub => sub.unsubscribe());
+      subscriptions.unreadSubscriptions = {};
     };
   }, [currentUserId]);
 
+  // Keep one live unread count subscription per chat, restarting it only when the read cursor moves
+  useEffect(() => {
+    if (!currentUserId) return;
+
+    const subscriptions = unsubscribeRefs.current.unreadSubscriptions;
+    const activeIds = new Set(readCursors.map(cursor => cursor.id));
+
+    // Drop subscriptions for chats that are no longer in the list
+    Object.keys(subscriptions).forEach(chatId => {
+      if (!activeIds.has(chatId)) {
+        subscriptions[chatId].unsubscribe();
+        delete subscriptions[chatId];
+      }
+    });
+
+    readCursors.forEach(cursor => {
+      const cursorKey = String(cursor.since.toMillis());
+      const existing = subscriptions[cursor.id];
+      if (existing && existing.cursorKey === cursorKey) return;
+
+      existing?.unsubscribe();
+      subscriptions[cursor.id] = {
+        cursorKey,
+        unsubscribe: ChatService.subscribeToUnreadCount(
+          cursor.type,
+          cursor.id,
+          currentUserId,
+          cursor.since,
+          (count: number) => {
+            setUnreadCounts(prev => (prev[cursor.id] === count ? prev : { ...prev, [cursor.id]: count }));
+          },
+          // Hide the badge rather than leave a stale count, e.g. after leaving the chat
+          () => {
+            setUnreadCounts(prev => (prev[cursor.id] === undefined ? prev : { ...prev, [cursor.id]: 0 }));
+          }
+        ),
+      };
+    });
+  }, [readCursors, currentUserId]);
+
   // Subscribe to user requests to show notification badge
   useEffect(() => {
     if (!currentUserId) return;
@@ -304,48 +323,47 @@ export default function ChatScreen(): JSX.Element {
     };
   }, [currentUserId, pendingRequestCount]);
 
-  // Clean up message subscriptions when chat selection changes
-  useEffect(() => {
-    return () => {
-      Object.values(unsubscribeRefs.current.messageSubscriptions).forEach(unsub => unsub());
-    };
-  }, [selectedChat]);
-
-  // Function to mark messages as read and update local state
+  // Function to mark messages as read; the unread subscription picks up the new cursor
   const markChatAsRead = async (chatItem: ChatItem): Promise<void> => {
     if (!currentUserId) return;
 
     try {
       if (chatItem.type === 'group') {
-        // Get the latest messages to find the last message ID
-        const messages = await ChatService.getGroupChatMessages(chatItem.id, 1);
-        if (messages.length > 0) {
-          const lastMessageId = messages[messages.length - 1].id;
-          
-          // Mark messages as read in Firebase
-          await ChatService.markMessagesAsRead(chatItem.id, currentUserId, lastMessageId);
-        }
+        await ChatService.markMessagesAsRead(chatItem.id, currentUserId);
       } else if (chatItem.type === 'request_dm') {
-        // For request DMs, we don't need to implement read tracking for now
-        // This is a temporary chat that will be closed when the request is resolved
+        await ChatService.markRequestDMAsRead(chatItem.id, currentUserId);
+      } else if (chatItem.type === 'direct') {
+        await ChatService.markDirectChatAsRead(chatItem.id, currentUserId);
       }
       
       // Update local state to reflect zero unread messages
-      setChats(prevChats => 
-        prevChats.map(chat => 
-          chat.id === chatItem.id 
-            ? { ...chat, newMessages: 0 }
-            : chat
-        )
-      );
+      setUnreadCounts(prev => ({ ...prev, [chatItem.id]: 0 }));
     } catch (error) {
       console.error('Error marking messages as read:', error);
     }
   };
 
+  // Unread mentions per group chat, for the list and the Mentions badge
+  const unreadMentions = useMemo(() => mentions.filter(mention => !mention.read), [mentions]);
+  const unreadMentionsByChat = useMemo(() => {
+    const byChat: Record<string, string[]> = {};
+    unreadMentions.forEach(mention => {
+      byChat[mention.chatId] = [...(byChat[mention.chatId] || []), mention.id];
+    });
+    return byChat;
+  }, [unreadMentions]);
+
+  // Mentions in the open group chat count as seen, including ones arriving while it's open
+  const openChatMentionIds = selectedChat?.type === 'group' ? unreadMentionsByChat[selectedChat.id] : undefined;
+  useEffect(() => {
+    if (!currentUserId || !openChatMentionIds?.length) return;
+    ChatService.markMentionsRead(currentUserId, openChatMentionIds);
+  }, [currentUserId, openChatMentionIds]);
+
   // Modified function to handle chat selection
   const handleChatSelect = async (chat: ChatItem): Promise<void> => {
     setSelectedChat(chat);
+    setFocusMessageId(undefined);
     
     // Mark messages as read when opening any chat with unread messages
     if (chat.newMessages > 0) {
@@ -356,13 +374,7 @@ export default function ChatScreen(): JSX.Element {
   // Handle back navigation
   const handleBack = (): void => {
     setSelectedChat(null);
-    
-    // When returning to chat list, refresh unread counts for all chats
-    if (currentUserId && chats.length > 0) {
-      chats.forEach(chat => {
-        updateChatUnreadCount(chat.id, chat.type);
-      });
-    }
+    setFocusMessageId(undefined);
   };
 
   const handleBackFromRequests = (): void => {
@@ -393,20 +405,11 @@ export default function ChatScreen(): JSX.Element {
     // Find the request DM that was just created
     setTimeout(async () => {
       try {
-        const requestDM = await ChatService.getRequestDMByRequestId(request.id);
-        if (requestDM) {
-          const dmChatItem = convertRequestDMToChatItem(requestDM, currentUserId);
+        const requestDM = await ChatService.getRequestDMByRequestId(request.id, currentUserId);
+        if (requestDM.ok && requestDM.value) {
+          const dmChatItem = convertRequestDMToChatItem(requestDM.value, currentUserId);
           
-          // Add to chats if not already there
-          setChats(prev => {
-            const exists = prev.find(chat => chat.id === dmChatItem.id);
-            if (!exists) {
-              return [dmChatItem, ...prev];
-            }
-            return prev;
-          });
-          
-          // Navigate to the DM
+          // Navigate to the DM; the request DM subscription adds it to the list
           setShowRequests(false);
           setSelectedChat(dmChatItem);
         }
@@ -416,6 +419,40 @@ export default function ChatScreen(): JSX.Element {
     }, 1000); // Give Firebase a moment to process
   };
 
+  // Open a chat passed in from another screen, e.g. My Requests, a profile, a search hit or a mention
+  const { chatId: linkedChatId, chatType: linkedChatType, messageId: linkedMessageId } = useLocalSearchParams<{
+    chatId?: string;
+    chatType?: ChatType;
+    messageId?: string;
+  }>();
+
+  useEffect(() => {
+    if (!currentUserId || !linkedChatId) return;
+
+    const openLinkedChat = async () => {
+      setFocusMessageId(linkedMessageId);
+      if (linkedChatType === 'request_dm') {
+        const result = await ChatService.getRequestDMById(linkedChatId);
+        if (result.ok) {
+          setSelectedChat(convertRequestDMToChatItem(result.value, currentUserId));
+        }
+      } else if (linkedChatType === 'direct') {
+        const result = await ChatService.getDirectChatById(linkedChatId);
+        if (result.ok) {
+          setSelectedChat(convertDirectChatToChatItem(result.value, currentUserId));
+        }
+      } else {
+        const result = await ChatService.getGroupChatById(linkedChatId);
+        if (result.ok) {
+          setSelectedChat(convertFirebaseGroupChatToChatItem(result.value, currentUserId));
+        }
+      }
+      router.setParams({ chatId: undefined, chatType: undefined, messageId: undefined });
+    };
+
+    openLinkedChat();
+  }, [linkedChatId, linkedChatType, linkedMessageId, currentUserId]);
+
   const isFocused = useIsFocused();
   const wasUnfocused = useRef(false);
   
@@ -451,38 +488,12 @@ export default function ChatScreen(): JSX.Element {
     );
   }
 
-  // Function to update a chat with a new message
-  const updateChatWithMessage = (chatId: string, messageText: string): void => {
-    const updatedChats = chats.map(chat => {
-      if (chat.id === chatId) {
-        return {
-          ...chat,
-          lastMessageTime: new Date(),
-        };
-      }
-      return chat;
-    });
-    
-    const sortedChats = updatedChats.sort((a, b) => {
-      const timeA = a.lastMessageTime ? a.lastMessageTime.getTime() : 0;
-      const timeB = b.lastMessageTime ? b.lastMessageTime.getTime() : 0;
-      return timeB - timeA;
-    });
-    
-    setChats(sortedChats);
-  };
-
-  // Used as a callback from ChatDetail when a message is sent
-  const handleMessageSent = (chatId: string, messageText: string): void => {
-    updateChatWithMessage(chatId, messageText);
-  };
-
   if (selectedChat) {
     return (
       <ChatDetail
         chat={selectedChat}
         onBack={handleBack}
-        onMessageSent={handleMessageSent}
+        focusMessageId={focusMessageId}
       />
     );
   }
@@ -516,7 +527,7 @@ export default function ChatScreen(): JSX.Element {
             style={{ 
               backgroundColor: item.type === 'request_dm' 
                 ? '#FF9800' // Orange for request DMs
-                : `hsl(${parseInt(item.id, 36) % 360}, 70%, 60%)` 
+                : `hsl(${parseInt(item.otherUserId || item.id, 36) % 360}, 70%, 60%)` 
             }}
           />
           {item.status !== 'none' && (
@@ -546,10 +557,15 @@ export default function ChatScreen(): JSX.Element {
             </View>
             {item.newMessages > 0 && (
               <Text variant="labelSmall" style={styles.messageCount}>
-                {item.newMessages} new {item.newMessages === 1 ? 'message' : 'messages'}
+                {item.newMessages > MAX_UNREAD_COUNT ? `${MAX_UNREAD_COUNT}+` : item.newMessages} new {item.newMessages === 1 ? 'message' : 'messages'}
               </Text>
             )}
           </View>
+          {!!unreadMentionsByChat[item.id] && (
+            <Text variant="labelSmall" style={[styles.mentionNotice, { color: theme.colors.primary }]}>
+              @ You were mentioned
+            </Text>
+          )}
           <Text variant="bodySmall" style={styles.participants}>
             {item.participants}
           </Text>
@@ -578,9 +594,22 @@ export default function ChatScreen(): JSX.Element {
     <ThemedView style={styles.container}>
       <Surface style={styles.header} elevation={1}>
         <Title style={styles.headerTitle}>Chat</Title>
-        <Button mode="contained" onPress={() => setShowRequests(true)}>
-          Requests
-        </Button>
+        <View style={styles.headerActions}>
+          <IconButton icon="magnify" onPress={() => router.push('/message-search')} style={styles.searchButton} />
+          <View style={styles.requestsButtonContainer}>
+            <Button mode="outlined" icon="at" onPress={() => router.push('/mentions')}>
+              Mentions
+            </Button>
+            {unreadMentions.length > 0 && (
+              <View style={styles.notificationBadge}>
+                <Text style={styles.badgeText}>{unreadMentions.length}</Text>
+              </View>
+            )}
+          </View>
+          <Button mode="contained" onPress={() => setShowRequests(true)}>
+            Requests
+          </Button>
+        </View>
       </Surface>
 
       <Divider />
@@ -591,7 +620,7 @@ export default function ChatScreen(): JSX.Element {
             No conversations yet
           </Text>
           <Text variant="bodyMedium" style={styles.emptySubtext}>
-            Join a project to get started
+            Join a project or message a friend to get started
           </Text>
         </View>
       ) : (
@@ -625,6 +654,14 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontSize: 22,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  searchButton: {
+    margin: 0,
+  },
   requestsButtonContainer: {
     position: 'relative',
   },
@@ -689,6 +726,10 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: '#fff',
   },
+  mentionNotice: {
+    fontWeight: 'bold',
+    marginBottom: 2,
+  },
   chatInfo: {
     flex: 1,
     justifyContent: 'center',
@@ -19,29 +19,45 @@ import ProjectRequestModal from '@/components/ProjectRequestModal';
 import { db, storage, auth as firebaseAuth } from '../../firebase';
 import { useAuth } from '../_layout';
 import { ChatService } from '../../services/chatService'; // Import ChatService
+import { showServiceError } from '@/components/showServiceError';
+import {
+  ProjectService,
+  ProjectStatus,
+  PROJECT_STATUS_LABELS,
+} from '../../services/projectService';
 import {
   collection,
   onSnapshot,
   query,
   orderBy,
-  addDoc,
   doc,
   getDoc,
   deleteDoc,
-  serverTimestamp,
 } from 'firebase/firestore';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 const LIGHT_PURPLE = '#e7e0ec';
 const DARK_PURPLE = '#6750a4';
 
+type StatusFilter = 'all' | Exclude<ProjectStatus, 'archived'>;
+const STATUS_FILTERS: StatusFilter[] = [
+  'all',
+  'open',
+  'full',
+  'in_progress',
+  'finished',
+];
+
 interface Project {
   id: string;
+  projectId?: string; // Older posts predate the projects collection
   title: string;
   tags: string;
   description: string;
   username: string;
   uid: string; // Add the user ID of the project owner
+  status: ProjectStatus;
+  profileColor?: string;
   pfp?: any;
 }
 
@@ -57,14 +73,17 @@ export default function Feed() {
   const [title, setTitle] = useState('');
   const [tags, setTags] = useState('');
   const [description, setDescription] = useState('');
+  const [maxMembers, setMaxMembers] = useState('');
   const [searchText, setSearchText] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [sendingRequest, setSendingRequest] = useState(false); // Loading state for sending requests
-  const [joinedProjects, setJoinedProjects] = useState<Set<string>>(new Set()); // Track joined projects
-  const [pendingRequests, setPendingRequests] = useState<Set<string>>(
-    new Set(),
-  ); // Track pending requests
+  const [joinedProjects, setJoinedProjects] = useState<Set<string>>(new Set()); // Track joined project IDs
+  const [pendingRequests, setPendingRequests] = useState<Map<string, string>>(
+    new Map(),
+  ); // Pending request ID for each project I've asked to join
+  const [withdrawingRequest, setWithdrawingRequest] = useState<string | null>(null);
   const { user: authUser } = useAuth();
-  const [selectedProjectToDelete, setSelectedProjectToDelete] = useState<Project | null>(null);
+  const [selectedProjectToArchive, setSelectedProjectToArchive] = useState<Project | null>(null);
 
 
   const [userData, setUserData] = useState<UserData | null>(null);
@@ -77,11 +96,13 @@ export default function Feed() {
         const data = doc.data();
         return {
           id: doc.id,
+          projectId: data.projectId,
           title: data.title,
           tags: data.tags,
           description: data.description,
           username: data.username,
           uid: data.uid, // Include the project owner's user ID
+          status: data.status || 'open',
           profileColor: data.profileColor,
           pfp: data.photoURL
             ? { uri: data.photoURL }
@@ -123,71 +144,19 @@ export default function Feed() {
     fetchUserData();
   }, [authUser]);
 
-  // Check which projects the user has already joined
-  useEffect(() => {
-    const checkJoinedProjects = async () => {
-      if (!authUser?.uid || projects.length === 0) return;
-
-      try {
-        // Get user's group chats
-        const userGroupChats = await ChatService.getUserGroupChats(
-          authUser.uid,
-        );
-
-        // Create a set of project names the user has joined
-        const joinedProjectNames = new Set(
-          userGroupChats.map((chat) => chat.projectName.toLowerCase()),
-        );
-
-        // Check which projects from the feed the user has joined
-        const joinedProjectIds = new Set<string>();
-        projects.forEach((project) => {
-          if (joinedProjectNames.has(project.title.toLowerCase())) {
-            joinedProjectIds.add(project.id);
-          }
-        });
-
-        setJoinedProjects(joinedProjectIds);
-      } catch (error) {
-        console.error('Error checking joined projects:', error);
-      }
-    };
-
-    checkJoinedProjects();
-  }, [authUser?.uid, projects]);
-
-  // Check which projects the user has pending requests for
+  // Subscribe to the projects the user is a member of
   useEffect(() => {
-    const checkPendingRequests = async () => {
-      if (!authUser?.uid || projects.length === 0) return;
-
-      try {
-        // Get user's sent requests
-        const userSentRequests = await ChatService.getUserSentRequests(
-          authUser.uid,
-        );
-
-        // Create a set of project names the user has pending requests for
-        const pendingProjectNames = new Set(
-          userSentRequests.map((request) => request.projectName.toLowerCase()),
-        );
-
-        // Check which projects from the feed have pending requests
-        const pendingProjectIds = new Set<string>();
-        projects.forEach((project) => {
-          if (pendingProjectNames.has(project.title.toLowerCase())) {
-            pendingProjectIds.add(project.id);
-          }
-        });
+    if (!authUser?.uid) return;
 
-        setPendingRequests(pendingProjectIds);
-      } catch (error) {
-        console.error('Error checking pending requests:', error);
-      }
-    };
+    const unsubscribe = ProjectService.subscribeToUserProjects(
+      authUser.uid,
+      (userProjects) => {
+        setJoinedProjects(new Set(userProjects.map((project) => project.id)));
+      },
+    );
 
-    checkPendingRequests();
-  }, [authUser?.uid, projects]);
+    return () => unsubscribe();
+  }, [authUser?.uid]);
 
   // Subscribe to real-time updates for pending requests
   useEffect(() => {
@@ -196,25 +165,14 @@ export default function Feed() {
     const unsubscribe = ChatService.subscribeToUserSentRequests(
       authUser.uid,
       (sentRequests) => {
-        // Create a set of project names with pending requests
-        const pendingProjectNames = new Set(
-          sentRequests.map((request) => request.projectName.toLowerCase()),
+        setPendingRequests(
+          new Map(sentRequests.map((request) => [request.projectId, request.id])),
         );
-
-        // Update pending projects based on current projects in feed
-        const pendingProjectIds = new Set<string>();
-        projects.forEach((project) => {
-          if (pendingProjectNames.has(project.title.toLowerCase())) {
-            pendingProjectIds.add(project.id);
-          }
-        });
-
-        setPendingRequests(pendingProjectIds);
       },
     );
 
     return () => unsubscribe();
-  }, [authUser?.uid, projects]);
+  }, [authUser?.uid]);
 
   const [userTags, setUserTags] = useState<string[]>([]);
 
@@ -234,6 +192,9 @@ export default function Feed() {
   });
 
   const filteredProjects = projectAlgorithm.filter((project) => {
+    if (project.status === 'archived') return false;
+    if (statusFilter !== 'all' && project.status !== statusFilter) return false;
+
     const query = searchText.trim().toLowerCase();
     if (!query) return true;
     const titleMatch = project.title.toLowerCase().includes(query);
@@ -255,54 +216,40 @@ export default function Feed() {
       return;
     }
 
+    // Team size is optional; it counts the owner
+    const teamSize = maxMembers.trim() ? parseInt(maxMembers.trim(), 10) : null;
+    if (teamSize !== null && (isNaN(teamSize) || teamSize < 2)) {
+      Alert.alert('Validation Error', 'Team size must be a number of at least 2.');
+      return;
+    }
+
     try {
       const userDoc = await getDoc(doc(db, 'users', authUser.uid));
       const userDataFirestore = userDoc.data();
       const profileColor = userDataFirestore?.profileColor || '#ff8c00';
 
-      const newPost = {
+      // Creates the project, its feed post and its group chat together
+      const created = await ProjectService.createProject({
         title: title.trim(),
         tags: tags.trim(),
         description: description.trim(),
-        uid: authUser.uid,
-        username: userData?.name || 'Anonymous',
-        photoURL: authUser.photoURL || null,
-        createdAt: new Date(),
-      };
-
-     
-      // Create the project post
-      const postRef = await addDoc(collection(db, 'posts'), {
-        ...newPost,
-        createdAt: serverTimestamp(), // consistent across timezones
+        ownerId: authUser.uid,
+        ownerName: userData?.name || 'Anonymous',
+        ownerEmail: authUser.email || '',
+        ownerPhotoURL: authUser.photoURL || null,
         profileColor,
+        maxMembers: teamSize,
       });
 
-      // Create a corresponding group chat for this project
-      const groupChatId = await ChatService.createGroupChat(
-        title.trim(), // projectName
-        `Group chat for ${title.trim()}`, // description
-        authUser.uid, // creatorId
-        userData?.name || 'Anonymous', // creatorName
-        authUser.email || '', // creatorEmail
-      );
-
-      if (groupChatId) {
-        console.log(
-          `Created group chat ${groupChatId} for project ${postRef.id}`,
-        );
-
-        // Optionally, you could store the groupChatId in the post document
-        // This would create a direct link between the post and its group chat
-        // await updateDoc(postRef, { groupChatId });
-      } else {
-        console.warn('Failed to create group chat for project');
-        // Don't fail the whole operation if group chat creation fails
+      if (!created.ok) {
+        showServiceError('Project not created', created.error, handlePost);
+        return;
       }
 
       setTitle('');
       setTags('');
       setDescription('');
+      setMaxMembers('');
       setCreateModal(false);
 
       Alert.alert('Success', 'Project posted and group chat created!');
@@ -324,14 +271,19 @@ export default function Feed() {
       return;
     }
 
+    if (!project.projectId || project.status !== 'open') {
+      Alert.alert('Info', 'This project is no longer accepting requests.');
+      return;
+    }
+
     // Check if user has already joined this project
-    if (joinedProjects.has(project.id)) {
+    if (joinedProjects.has(project.projectId)) {
       Alert.alert('Info', 'You are already a member of this project.');
       return;
     }
 
     // Check if user already has a pending request for this project
-    if (pendingRequests.has(project.id)) {
+    if (pendingRequests.has(project.projectId)) {
       Alert.alert(
         'Info',
         'You already have a pending request for this project. Please wait for the project owner to respond.',
@@ -345,27 +297,26 @@ export default function Feed() {
 
   // Send a join request
   const handleSendRequest = async (message: string) => {
-    if (!authUser || !selectedProject) {
+    if (!authUser || !selectedProject?.projectId) {
       Alert.alert('Error', 'Authentication or project information missing.');
       return;
     }
+    const projectId = selectedProject.projectId;
 
     setSendingRequest(true);
 
     try {
-      const requestId = await ChatService.createProjectRequest(
+      const result = await ChatService.createProjectRequest(
         authUser.uid, // fromUserId
         userData?.name || 'Anonymous', // fromUserName
         authUser.email || '', // fromUserEmail
-        selectedProject.uid, // toUserId (project owner)
-        selectedProject.title, // projectName
+        projectId, // projectId
         message, // message
-        selectedProject.id, // projectId
       );
 
-      if (requestId) {
+      if (result.ok) {
         // Immediately update pending requests for instant UI feedback
-        setPendingRequests((prev) => new Set(prev).add(selectedProject.id));
+        setPendingRequests((prev) => new Map(prev).set(projectId, result.value));
 
         Alert.alert(
           'Request Sent!',
@@ -374,24 +325,50 @@ export default function Feed() {
         setRequestModalVisible(false);
         setSelectedProject(null);
       } else {
-        Alert.alert(
-          'Request Not Sent',
-          'A request for this project may already exist or there was an error. Please try again.',
-        );
+        // Nothing more to send if the request exists or the project closed meanwhile
+        if (result.error.code === 'already-exists' || result.error.code === 'validation') {
+          setRequestModalVisible(false);
+          setSelectedProject(null);
+        }
+        showServiceError('Request Not Sent', result.error, () => handleSendRequest(message));
       }
-    } catch (error) {
-      console.error('Error sending join request:', error);
-      Alert.alert('Error', 'Failed to send request. Please try again.');
     } finally {
       setSendingRequest(false);
     }
   };
 
+  // Withdraw my pending request to join a project
+  const handleWithdrawRequest = (project: Project) => {
+    const requestId = project.projectId ? pendingRequests.get(project.projectId) : undefined;
+    if (!authUser || !requestId) return;
+
+    const withdraw = async () => {
+      setWithdrawingRequest(requestId);
+      try {
+        const result = await ChatService.withdrawProjectRequest(requestId, authUser.uid);
+        if (!result.ok) {
+          showServiceError('Could not withdraw request', result.error, withdraw);
+        }
+      } finally {
+        setWithdrawingRequest(null);
+      }
+    };
+
+    Alert.alert(
+      'Withdraw request?',
+      `Your request to join "${project.title}" will be cancelled.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Withdraw', style: 'destructive', onPress: withdraw },
+      ],
+    );
+  };
+
   // Function to determine button state and render accordingly
   const renderProjectButton = (project: Project) => {
     const isOwner = authUser && project.uid === authUser.uid;
-    const isJoined = joinedProjects.has(project.id);
-    const isPending = pendingRequests.has(project.id);
+    const isJoined = !!project.projectId && joinedProjects.has(project.projectId);
+    const isPending = !!project.projectId && pendingRequests.has(project.projectId);
     
 
     if (isOwner) {
@@ -414,6 +391,7 @@ export default function Feed() {
     }
 
     if (isPending) {
+      const isWithdrawing = withdrawingRequest === pendingRequests.get(project.projectId!);
       return (
         <View style={[styles.chatButton, styles.pendingButton]}>
           <View style={styles.pendingButtonContent}>
@@ -421,11 +399,30 @@ export default function Feed() {
             <ThemedText style={styles.pendingButtonText}>
               Request Pending
             </ThemedText>
+            <TouchableOpacity
+              onPress={() => handleWithdrawRequest(project)}
+              disabled={isWithdrawing}
+              style={styles.withdrawButton}
+            >
+              <ThemedText style={styles.withdrawButtonText}>
+                {isWithdrawing ? 'Withdrawing…' : 'Withdraw'}
+              </ThemedText>
+            </TouchableOpacity>
           </View>
         </View>
       );
     }
 
+    if (project.status !== 'open') {
+      return (
+        <View style={[styles.chatButton, styles.closedButton]}>
+          <ThemedText style={styles.closedButtonText}>
+            {PROJECT_STATUS_LABELS[project.status]}
+          </ThemedText>
+        </View>
+      );
+    }
+
     return (
       <TouchableOpacity
         style={[styles.chatButton, sendingRequest && styles.disabledButton]}
@@ -469,13 +466,29 @@ export default function Feed() {
       </TouchableOpacity>
     </View>
   );
-  const deleteProject = async (projectId: string) => {
+  // Archive a project: it leaves the feed, but members keep it and its chat.
+  // Old posts with no project behind them are simply removed.
+  const archiveProject = async (project: Project) => {
+    if (!authUser) return;
+
     try {
-      await deleteDoc(doc(db, 'posts', projectId));
-      Alert.alert('Deleted', 'Project has been removed.');
+      if (project.projectId) {
+        const archived = await ProjectService.archiveProject(
+          project.projectId,
+          authUser.uid,
+        );
+        if (!archived.ok) {
+          showServiceError('Could not archive project', archived.error, () => archiveProject(project));
+          return;
+        }
+        Alert.alert('Archived', `"${project.title}" is off the feed. Its members can still see it and its chat.`);
+      } else {
+        await deleteDoc(doc(db, 'posts', project.id));
+        Alert.alert('Removed', 'The post has been removed from the feed.');
+      }
     } catch (error) {
-      console.error('Error deleting project:', error);
-      Alert.alert('Error', 'Failed to delete project.');
+      console.error('Error archiving project:', error);
+      Alert.alert('Error', 'Failed to archive project.');
     }
   };
   
@@ -515,6 +528,27 @@ export default function Feed() {
             backgroundColor: '#fff',
           }}
         />
+        <View style={styles.statusFilterRow}>
+          {STATUS_FILTERS.map((filter) => (
+            <TouchableOpacity
+              key={filter}
+              onPress={() => setStatusFilter(filter)}
+              style={[
+                styles.statusFilterChip,
+                statusFilter === filter && styles.statusFilterChipActive,
+              ]}
+            >
+              <ThemedText
+                style={[
+                  styles.statusFilterText,
+                  statusFilter === filter && { color: 'white' },
+                ]}
+              >
+                {filter === 'all' ? 'All' : PROJECT_STATUS_LABELS[filter]}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
         {/* The top most common project shared with user */}
         <View style={styles.feedContainer}>
           {/* The rest of algorithm established in projectAlgorithm  */}
@@ -526,12 +560,13 @@ export default function Feed() {
               { backgroundColor: project.profileColor || '#e7e0ec' }
             ]}
           >
-              <View
+              <TouchableOpacity
                 style={{
                   flexDirection: 'row',
                   alignItems: 'center',
                   marginBottom: 12,
                 }}
+                onPress={() => router.push({ pathname: '/users/[uid]', params: { uid: project.uid } })}
               >
                 <Image
                   source={
@@ -549,7 +584,7 @@ export default function Feed() {
                 <ThemedText style={{ fontWeight: '500', fontSize: 16 }}>
                   {project.username}
                 </ThemedText>
-              </View>
+              </TouchableOpacity>
 
               <ThemedText
                 type="title"
@@ -557,6 +592,13 @@ export default function Feed() {
               >
                 {project.title}
               </ThemedText>
+              {project.status !== 'open' && (
+                <View style={styles.statusBadge}>
+                  <ThemedText style={styles.statusBadgeText}>
+                    {PROJECT_STATUS_LABELS[project.status]}
+                  </ThemedText>
+                </View>
+              )}
               {/* Rest of your project card content */}
               <View
                 style={{
@@ -578,7 +620,7 @@ export default function Feed() {
               {authUser && renderProjectButton(project)}
               {authUser?.uid === project.uid && (
                 <TouchableOpacity
-                  onPress={() => setSelectedProjectToDelete(project)}
+                  onPress={() => setSelectedProjectToArchive(project)}
                   style={{
                     position: 'absolute',
                     top: 10,
@@ -586,7 +628,7 @@ export default function Feed() {
                     padding: 6,
                   }}
                 >
-                  <Ionicons name="trash" size={22} color="#B00020" />
+                  <Ionicons name="archive" size={22} color="#B00020" />
                 </TouchableOpacity>
               )}
             </View>
@@ -630,6 +672,13 @@ export default function Feed() {
               multiline
               style={[styles.input, { height: 100 }]}
             />
+            <TextInput
+              placeholder="Team size including you (optional)"
+              value={maxMembers}
+              onChangeText={setMaxMembers}
+              keyboardType="number-pad"
+              style={styles.input}
+            />
 
             <View style={styles.buttonRow}>
               <TouchableOpacity
@@ -647,35 +696,35 @@ export default function Feed() {
       </Modal>
 
       <Modal
-        visible={selectedProjectToDelete !== null}
+        visible={selectedProjectToArchive !== null}
         transparent
         animationType="fade"
-        onRequestClose={() => setSelectedProjectToDelete(null)}
+        onRequestClose={() => setSelectedProjectToArchive(null)}
       >
         <View style={styles.modalStyle}>
           <View style={[styles.modalContent, { padding: 30 }]}>
             <ThemedText type="title" style={{ marginBottom: 16 }}>
-              Confirm Deletion
+              Archive Project
             </ThemedText>
             <ThemedText style={{ marginBottom: 24 }}>
-              Are you sure you want to delete "{selectedProjectToDelete?.title}"?
-              This action cannot be undone.
+              Archive "{selectedProjectToArchive?.title}"? It will leave the feed and stop
+              taking requests, but it stays visible to its members.
             </ThemedText>
             <View style={styles.buttonRow}>
               <TouchableOpacity
                 style={[styles.chatButton, { backgroundColor: '#ccc' }]}
-                onPress={() => setSelectedProjectToDelete(null)}
+                onPress={() => setSelectedProjectToArchive(null)}
               >
                 <ThemedText style={{ color: 'white' }}>Cancel</ThemedText>
               </TouchableOpacity>
               <TouchableOpacity
                 style={[styles.chatButton, { backgroundColor: '#B00020' }]}
                 onPress={() => {
-                  deleteProject(selectedProjectToDelete!.id);
-                  setSelectedProjectToDelete(null);
+                  archiveProject(selectedProjectToArchive!);
+                  setSelectedProjectToArchive(null);
                 }}
               >
-                <ThemedText style={{ color: 'white' }}>Delete</ThemedText>
+                <ThemedText style={{ color: 'white' }}>Archive</ThemedText>
               </TouchableOpacity>
             </View>
           </View>
@@ -786,6 +835,60 @@ const styles = StyleSheet.create({
     color: '#FF9800',
     fontWeight: '600',
   },
+  withdrawButton: {
+    marginLeft: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 2,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FF9800',
+  },
+  withdrawButtonText: {
+    color: '#FF9800',
+    fontSize: 13,
+  },
+  closedButton: {
+    backgroundColor: '#eeeeee',
+    borderWidth: 2,
+    borderColor: '#9e9e9e',
+  },
+  closedButtonText: {
+    color: '#616161',
+    fontWeight: '600',
+  },
+  statusFilterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginHorizontal: 16,
+  },
+  statusFilterChip: {
+    borderWidth: 1,
+    borderColor: DARK_PURPLE,
+    borderRadius: 16,
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+  },
+  statusFilterChipActive: {
+    backgroundColor: DARK_PURPLE,
+  },
+  statusFilterText: {
+    fontSize: 14,
+    color: DARK_PURPLE,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    paddingVertical: 2,
+    paddingHorizontal: 10,
+    marginBottom: 10,
+  },
+  statusBadgeText: {
+    fontSize: 13,
+    color: '#616161',
+    fontWeight: '600',
+  },
   postButton: {
     backgroundColor: DARK_PURPLE,
     marginTop: 20,
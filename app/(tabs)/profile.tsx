@@ -21,6 +21,7 @@ import { ThemedView } from '@/components/ThemedView';
 import TagSelector from '@/components/TagSelector';
 import { useAuth } from '../_layout';
 import { db, storage, auth as firebaseAuth } from '../../firebase';
+import { PresenceService } from '@/services/presenceService';
 
 interface UserProfileData {
   name: string;
@@ -136,7 +137,7 @@ export default function ProfileScreen() {
           catch (deleteError: any) { console.warn("Could not delete old photo:", deleteError.message); }
       }
       const storageRef = ref(storage, `profile_pictures/${authUser.uid}/${Date.now()}`);
-      const uploadTask = uploadBytesResumable(storageRef, blob);
+      const uploadTask = uploadBytesResumable(storageRef, blob, { contentType: blob.type || 'image/jpeg' }); // Storage rules only accept images
       return new Promise((resolve, reject) => {
         uploadTask.on("state_changed", null,
           (error) => { console.error("Upload error:", error); (blob as any).close(); reject(error); },
@@ -210,7 +211,12 @@ export default function ProfileScreen() {
     Alert.alert("Logout", "Are you sure you want to logout?", [
         { text: "Cancel", style: "cancel" },
         { text: "Logout", onPress: async () => {
-            try { await firebaseAuth.signOut(); router.replace('/login'); }
+            try {
+              // Go offline while we're still allowed to write our presence
+              if (authUser) await PresenceService.setOffline(authUser.uid);
+              await firebaseAuth.signOut();
+              router.replace('/login');
+            }
             catch (error) { console.error("Logout error: ", error); Alert.alert("Error", "Failed to logout."); }
         }}
     ]);
@@ -293,6 +299,23 @@ export default function ProfileScreen() {
         </View>
       </View>
 
+      <View style={styles.requestsLinks}>
+        <Button
+          mode="text"
+          icon="send-clock-outline"
+          onPress={() => router.push('/requests' as any)}
+        >
+          My Requests
+        </Button>
+        <Button
+          mode="text"
+          icon="email-outline"
+          onPress={() => router.push('/invites' as any)}
+        >
+          Invites
+        </Button>
+      </View>
+
       <Card mode="contained" style={styles.card}>
         <Card.Title title="Bio" />
         <Card.Content>
@@ -400,6 +423,7 @@ const styles = StyleSheet.create({
   statItem: { alignItems: 'center' },
   statNumber: { marginLeft: 4, fontWeight: 'bold' },
   statLabel: { marginTop: 2, fontSize: 12, color: 'gray' },
+  requestsLinks: { flexDirection: 'row', justifyContent: 'center', marginTop: 4 },
   rowWrap: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
   chip: { marginVertical: 4 },
   editRow: { flexDirection: 'row', justifyContent: 'space-evenly', marginTop: 8 },
@@ -13,6 +13,7 @@ import 'react-native-reanimated';
 import { onAuthStateChanged, User } from 'firebase/auth';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { usePresenceTracking } from '@/hooks/usePresence';
 import { auth } from '../firebase';
 
 // Prevent the splash screen from auto-hiding
@@ -56,6 +57,8 @@ function RootLayoutNav() {
   const segments = useSegments();
   const router = useRouter();
 
+  usePresenceTracking(user?.uid); // Online while the app is foregrounded
+
   const [fontsLoaded, fontError] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
@@ -1,47 +1,196 @@
-import React, { useMemo, useState } from 'react';
-import { StyleSheet, View } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, StyleSheet, View } from 'react-native';
 import { FlashList } from '@shopify/flash-list';
 import {
   Avatar,
+  Button,
+  Dialog,
   Divider,
   IconButton,
   List,
   Menu,
+  Portal,
   Provider as PaperProvider,
   Text,
+  TextInput,
   useTheme,
 } from 'react-native-paper';
-import { Stack } from 'expo-router';
-
-/* ------------------------------------------------------------------ */
-/* dummy data – replace with Firestore later                           */
-type Friend = {
-  id: string;
-  name: string;
-  handle: string;
-  online?: boolean;
-  joined: number;
-};
-const SAMPLE: Friend[] = [
-  { id: '1', name: 'Ada Byron',   handle: '@adab',  online: true, joined: 1 },
-  { id: '2', name: 'Grace Hopper',handle: '@hopper',             joined: 2 },
-  { id: '3', name: 'Linus T.',    handle: '@linus',              joined: 3 },
-];
+import { Stack, router } from 'expo-router';
+import { useAuth } from '../_layout';
+import { Friend, FriendService } from '@/services/friendService';
+import { PresenceService } from '@/services/presenceService';
+import { usePresence } from '@/hooks/usePresence';
+import { Result } from '@/services/serviceResult';
+import { showServiceError } from '@/components/showServiceError';
+import { startDirectChat } from '@/components/startDirectChat';
 
 /* ------------------------------------------------------------------ */
 export default function FriendsScreen() {
+  const { user: authUser } = useAuth();
   const { colors } = useTheme();
 
+  const [friendships, setFriendships] = useState<Friend[]>([]);
+  const [loadError, setLoadError]     = useState<string | null>(null);
+  const [reloadKey, setReloadKey]     = useState(0);
+  const [busy, setBusy]               = useState<string | null>(null); // friendshipId being updated
+
   const [order, setOrder]         = useState<'default' | 'latest' | 'alpha'>('default');
   const [menuVisible, setVisible] = useState(false);
 
+  const [addVisible, setAddVisible] = useState(false);
+  const [email, setEmail]           = useState('');
+  const [sending, setSending]       = useState(false);
+
+  useEffect(() => {
+    if (!authUser?.uid) return;
+    setLoadError(null);
+    const unsubscribe = FriendService.subscribeToFriendships(
+      authUser.uid,
+      setFriendships,
+      (error) => setLoadError(error.message)
+    );
+    return () => unsubscribe();
+  }, [authUser?.uid, reloadKey]);
+
+  const incoming = friendships.filter((f) => f.status === 'pending' && f.direction === 'incoming');
+  const outgoing = friendships.filter((f) => f.status === 'pending' && f.direction === 'outgoing');
+
   const data = useMemo(() => {
+    const friends = friendships.filter((f) => f.status === 'accepted');
     switch (order) {
-      case 'latest': return [...SAMPLE].sort((a,b)=>b.joined-a.joined);
-      case 'alpha':  return [...SAMPLE].sort((a,b)=>a.name.localeCompare(b.name));
-      default:       return SAMPLE;
+      case 'latest': return [...friends].sort((a,b)=>b.since.toMillis()-a.since.toMillis());
+      case 'alpha':  return [...friends].sort((a,b)=>a.displayName.localeCompare(b.displayName));
+      default:       return friends;
     }
-  }, [order]);
+  }, [friendships, order]);
+
+  const presence = usePresence(data.map((f) => f.userId));
+
+  /* ---------------------------------------------------------------- */
+  // Run a friendship change, disabling its row's buttons and reporting any error
+  const runAction = async (
+    friend: Friend,
+    title: string,
+    action: () => Promise<Result<void>>,
+  ) => {
+    setBusy(friend.friendshipId);
+    try {
+      const result = await action();
+      if (!result.ok) {
+        showServiceError(title, result.error, () => runAction(friend, title, action));
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const accept = (friend: Friend) =>
+    runAction(friend, 'Could not accept request', () => FriendService.acceptFriendRequest(friend.friendshipId, authUser!.uid));
+
+  const decline = (friend: Friend) =>
+    runAction(friend, 'Could not update request', () => FriendService.declineFriendRequest(friend.friendshipId, authUser!.uid));
+
+  const remove = (friend: Friend) =>
+    Alert.alert('Remove friend?', `${friend.displayName} will be removed from your friends.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () =>
+          runAction(friend, 'Could not remove friend', () => FriendService.removeFriend(friend.friendshipId, authUser!.uid)),
+      },
+    ]);
+
+  const sendRequest = async () => {
+    if (!authUser || !email.trim()) return;
+    setSending(true);
+    try {
+      const [me, them] = await Promise.all([
+        FriendService.getProfile(authUser.uid),
+        FriendService.findUserByEmail(email),
+      ]);
+      if (!me.ok) return showServiceError('Could not send request', me.error, sendRequest);
+      if (!them.ok) return showServiceError('Could not send request', them.error, sendRequest);
+      if (!them.value) {
+        Alert.alert('No one found', `There's no account for ${email.trim()}.`);
+        return;
+      }
+
+      const result = await FriendService.sendFriendRequest(me.value, them.value);
+      if (result.ok) {
+        setAddVisible(false);
+        setEmail('');
+      } else {
+        showServiceError('Could not send request', result.error, sendRequest);
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  /* ---------------------------------------------------------------- */
+  const viewProfile = (friend: Friend) =>
+    router.push({ pathname: '/users/[uid]', params: { uid: friend.userId } });
+
+  const avatar = (friend: Friend) =>
+    friend.photoURL ? (
+      <Avatar.Image size={36} source={{ uri: friend.photoURL }} />
+    ) : (
+      <Avatar.Text size={36} label={friend.displayName[0]} style={{ backgroundColor: '#90caf9' }} />
+    );
+
+  const requestsHeader = (
+    <View>
+      {loadError && (
+        <View style={styles.error}>
+          <Text style={{ color: '#666', marginBottom: 8 }}>{loadError}</Text>
+          <Button mode="outlined" onPress={() => setReloadKey((k) => k + 1)}>Retry</Button>
+        </View>
+      )}
+
+      {incoming.length > 0 && <List.Subheader>Friend requests</List.Subheader>}
+      {incoming.map((f) => (
+        <List.Item
+          key={f.friendshipId}
+          title={f.displayName}
+          description={f.email}
+          onPress={() => viewProfile(f)}
+          left={() => avatar(f)}
+          right={() => (
+            <View style={styles.actions}>
+              <Button compact mode="contained" onPress={() => accept(f)} disabled={busy === f.friendshipId}>
+                Accept
+              </Button>
+              <Button compact onPress={() => decline(f)} disabled={busy === f.friendshipId}>
+                Decline
+              </Button>
+            </View>
+          )}
+        />
+      ))}
+
+      {outgoing.length > 0 && <List.Subheader>Sent requests</List.Subheader>}
+      {outgoing.map((f) => (
+        <List.Item
+          key={f.friendshipId}
+          title={f.displayName}
+          description="Waiting for them to accept"
+          onPress={() => viewProfile(f)}
+          left={() => avatar(f)}
+          right={() => (
+            <Button compact onPress={() => decline(f)} disabled={busy === f.friendshipId}>
+              Cancel
+            </Button>
+          )}
+        />
+      ))}
+
+      {(incoming.length > 0 || outgoing.length > 0) && <List.Subheader>Friends</List.Subheader>}
+      {!loadError && data.length === 0 && (
+        <Text style={styles.empty}>No friends yet. Tap + to add someone by email.</Text>
+      )}
+    </View>
+  );
 
   /* ---------------------------------------------------------------- */
   return (
@@ -58,15 +207,18 @@ export default function FriendsScreen() {
             </Text>
           </Text>
 
-          <Menu
-            visible={menuVisible}
-            onDismiss={() => setVisible(false)}
-            anchor={<IconButton icon="chevron-down" size={20} onPress={() => setVisible(true)} />}
-          >
-            <Menu.Item onPress={()=>{setOrder('default'); setVisible(false);}} title="Default" />
-            <Menu.Item onPress={()=>{setOrder('latest');  setVisible(false);}} title="Latest"  />
-            <Menu.Item onPress={()=>{setOrder('alpha');   setVisible(false);}} title="Alphabetical" />
-          </Menu>
+          <View style={styles.actions}>
+            <Menu
+              visible={menuVisible}
+              onDismiss={() => setVisible(false)}
+              anchor={<IconButton icon="chevron-down" size={20} onPress={() => setVisible(true)} />}
+            >
+              <Menu.Item onPress={()=>{setOrder('default'); setVisible(false);}} title="Default" />
+              <Menu.Item onPress={()=>{setOrder('latest');  setVisible(false);}} title="Latest"  />
+              <Menu.Item onPress={()=>{setOrder('alpha');   setVisible(false);}} title="Alphabetical" />
+            </Menu>
+            <IconButton icon="account-plus" size={20} onPress={() => setAddVisible(true)} />
+          </View>
         </View>
 
         {/* -------- list ------------------------------------------ */}
@@ -74,30 +226,65 @@ export default function FriendsScreen() {
           data={data}
           estimatedItemSize={60}
           ItemSeparatorComponent={Divider}
+          ListHeaderComponent={requestsHeader}
+          extraData={{ busy, presence }}
           renderItem={({ item }) => (
             <List.Item
               title={() => (
                 <View style={styles.inlineName}>
-                  <Text variant="bodyLarge">{item.name}</Text>
+                  <Text variant="bodyLarge">{item.displayName}</Text>
                   <List.Icon
                     icon="circle"
                     size={12}
-                    color={item.online ? colors.primary : colors.onSurfaceDisabled}
+                    color={presence[item.userId]?.online ? colors.primary : colors.onSurfaceDisabled}
                     style={{ marginLeft: 6, marginRight: 0 }}
                   />
                 </View>
               )}
-              description={item.handle}
-              left={() => (
-                <Avatar.Text
-                  size={36}
-                  label={item.name[0]}
-                  style={{ backgroundColor: '#90caf9' }}
-                />
+              description={PresenceService.describe(presence[item.userId])}
+              onPress={() => viewProfile(item)}
+              left={() => avatar(item)}
+              right={() => (
+                <View style={styles.actions}>
+                  <IconButton
+                    icon="message-outline"
+                    size={20}
+                    onPress={() => startDirectChat(authUser!.uid, item)}
+                  />
+                  <IconButton
+                    icon="account-remove-outline"
+                    size={20}
+                    onPress={() => remove(item)}
+                    disabled={busy === item.friendshipId}
+                  />
+                </View>
               )}
             />
           )}
         />
+
+        {/* -------- add friend ------------------------------------ */}
+        <Portal>
+          <Dialog visible={addVisible} onDismiss={() => setAddVisible(false)}>
+            <Dialog.Title>Add a friend</Dialog.Title>
+            <Dialog.Content>
+              <TextInput
+                mode="outlined"
+                label="Email"
+                autoCapitalize="none"
+                keyboardType="email-address"
+                value={email}
+                onChangeText={setEmail}
+              />
+            </Dialog.Content>
+            <Dialog.Actions>
+              <Button onPress={() => setAddVisible(false)}>Cancel</Button>
+              <Button onPress={sendRequest} loading={sending} disabled={sending || !email.trim()}>
+                Send request
+              </Button>
+            </Dialog.Actions>
+          </Dialog>
+        </Portal>
       </View>
     </PaperProvider>
   );
@@ -108,5 +295,8 @@ const styles = StyleSheet.create({
   container: { flex: 1 },
   sortBar:   { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
                paddingHorizontal: 12, paddingVertical: 6 },
+  actions:   { flexDirection: 'row', alignItems: 'center' },
   inlineName:{ flexDirection: 'row', alignItems: 'center' },
+  error:     { alignItems: 'center', margin: 16 },
+  empty:     { textAlign: 'center', color: '#666', margin: 16 },
 });
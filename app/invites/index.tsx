@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, View } from 'react-native';
+import { Button, Card, SegmentedButtons, Text } from 'react-native-paper';
+import { Stack, router } from 'expo-router';
+import { Timestamp } from 'firebase/firestore';
+import { useAuth } from '../_layout';
+import { ChatService, ProjectRequest, RequestDecisionResult } from '@/services/chatService';
+import { PROJECT_STATUS_LABELS } from '@/services/projectService';
+import { ServiceError } from '@/services/serviceResult';
+import { showServiceError } from '@/components/showServiceError';
+import { RequestStatusLabel } from '@/components/RequestStatusLabel';
+
+type Section = 'received' | 'sent';
+
+const formatTimestamp = (timestamp: Timestamp): string => {
+  const date = timestamp.toDate();
+  return `${date.toLocaleDateString()} at ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+// Explain to the invitee why accepting or declining didn't go through
+const describeInviteFailure = (result: RequestDecisionResult): string => {
+  switch (result.outcome) {
+    case 'already_resolved':
+      return `This invite was already ${result.status}.`;
+    case 'not_found':
+      return 'This invite no longer exists.';
+    case 'project_full':
+      return 'The team filled up before you accepted.';
+    case 'project_closed':
+      return result.projectStatus
+        ? `This project is ${PROJECT_STATUS_LABELS[result.projectStatus].toLowerCase()} and no longer accepting members.`
+        : 'This project no longer exists.';
+    case 'invites_disabled':
+      return "The project's group chat no longer accepts invites.";
+    case 'failed':
+      return result.error.message;
+    default:
+      return 'Failed to process invite. Please try again.';
+  }
+};
+
+// What happened to an invite, from the invitee's or the owner's side
+const describeInvite = (invite: ProjectRequest, section: Section): string => {
+  const respondedAt = invite.respondedAt ?? invite.updatedAt;
+  const who = section === 'received' ? 'You' : invite.toUserName || 'They';
+  switch (invite.status) {
+    case 'pending':
+      return section === 'received' ? 'Waiting for your answer.' : 'Waiting for them to answer.';
+    case 'accepted':
+      return `${who} joined on ${formatTimestamp(respondedAt)}.`;
+    case 'declined':
+      return `${who} declined on ${formatTimestamp(respondedAt)}.`;
+    case 'withdrawn':
+      return `Withdrawn on ${formatTimestamp(respondedAt)}.`;
+  }
+};
+
+export default function InvitesScreen() {
+  const { user: authUser } = useAuth();
+  const [section, setSection]     = useState<Section>('received');
+  const [received, setReceived]   = useState<ProjectRequest[]>([]);
+  const [sent, setSent]           = useState<ProjectRequest[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [busy, setBusy]           = useState<string | null>(null); // Invite being answered or withdrawn
+
+  useEffect(() => {
+    if (!authUser?.uid) return;
+    setLoadError(null);
+    const onError = (error: ServiceError) => setLoadError(error.message);
+    const unsubscribeReceived = ChatService.subscribeToUserInvites(authUser.uid, setReceived, onError);
+    const unsubscribeSent = ChatService.subscribeToSentInvites(authUser.uid, setSent, onError);
+    return () => {
+      unsubscribeReceived();
+      unsubscribeSent();
+    };
+  }, [authUser?.uid, reloadKey]);
+
+  const data = section === 'received' ? received : sent;
+
+  /* ---------------------------------------------------------------- */
+  const accept = async (invite: ProjectRequest) => {
+    setBusy(invite.id);
+    try {
+      const result = await ChatService.acceptProjectRequest(invite.id);
+      if (result.outcome === 'accepted') {
+        Alert.alert('Welcome to the team!', `You've joined "${invite.projectName}".`, [
+          { text: 'Later', style: 'cancel' },
+          {
+            text: 'Open group chat',
+            onPress: () =>
+              router.push({ pathname: '/(tabs)/chat', params: { chatId: result.groupChatId, chatType: 'group' } }),
+          },
+        ]);
+      } else if (result.outcome === 'failed') {
+        showServiceError('Could not accept invite', result.error, () => accept(invite));
+      } else {
+        Alert.alert('Could not accept invite', describeInviteFailure(result));
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const decline = async (invite: ProjectRequest) => {
+    setBusy(invite.id);
+    try {
+      const result = await ChatService.declineProjectRequest(invite.id);
+      if (result.outcome === 'failed') {
+        showServiceError('Could not decline invite', result.error, () => decline(invite));
+      } else if (result.outcome !== 'declined') {
+        Alert.alert('Could not decline invite', describeInviteFailure(result));
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const withdraw = (invite: ProjectRequest) => {
+    if (!authUser) return;
+
+    const confirmWithdraw = async () => {
+      setBusy(invite.id);
+      try {
+        const result = await ChatService.withdrawProjectRequest(invite.id, authUser.uid);
+        if (!result.ok) {
+          showServiceError('Could not withdraw invite', result.error, confirmWithdraw);
+        }
+      } finally {
+        setBusy(null);
+      }
+    };
+
+    Alert.alert(
+      'Withdraw invite?',
+      `${invite.toUserName || 'They'} will no longer be able to join "${invite.projectName}" with this invite.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Withdraw', style: 'destructive', onPress: confirmWithdraw },
+      ]
+    );
+  };
+
+  /* ---------------------------------------------------------------- */
+  return (
+    <View style={{ flex: 1 }}>
+      <Stack.Screen options={{ title: 'Invites', headerShown: true }} />
+
+      <SegmentedButtons
+        value={section}
+        onValueChange={(v) => setSection(v as Section)}
+        buttons={[
+          { value: 'received', label: 'Received' },
+          { value: 'sent',     label: 'Sent'     },
+        ]}
+        style={{ margin: 8 }}
+      />
+
+      <ScrollView>
+        {loadError && (
+          <View style={{ alignItems: 'center', margin: 16 }}>
+            <Text style={{ color: '#666', marginBottom: 8 }}>{loadError}</Text>
+            <Button mode="outlined" onPress={() => setReloadKey((k) => k + 1)}>Retry</Button>
+          </View>
+        )}
+
+        {!loadError && data.length === 0 && (
+          <Text style={{ textAlign: 'center', color: '#666', margin: 16 }}>
+            {section === 'received'
+              ? 'No one has invited you to a project yet.'
+              : "You haven't invited anyone yet. Invite people from their profile."}
+          </Text>
+        )}
+
+        {data.map((invite) => (
+          <Card key={invite.id} style={{ margin: 8 }}>
+            <Card.Title
+              title={invite.projectName}
+              subtitle={
+                section === 'received'
+                  ? `From ${invite.fromUserName} · ${formatTimestamp(invite.createdAt)}`
+                  : `To ${invite.toUserName || 'Unknown'} · ${formatTimestamp(invite.createdAt)}`
+              }
+              right={() => <RequestStatusLabel status={invite.status} />}
+            />
+            <Card.Content>
+              {!!invite.message && (
+                <Text style={{ fontStyle: 'italic', marginBottom: 8 }}>&quot;{invite.message}&quot;</Text>
+              )}
+              <Text style={{ color: '#666' }}>{describeInvite(invite, section)}</Text>
+            </Card.Content>
+            {invite.status === 'pending' && (
+              <Card.Actions>
+                {section === 'received' ? (
+                  <>
+                    <Button onPress={() => decline(invite)} disabled={busy === invite.id}>Decline</Button>
+                    <Button
+                      mode="contained"
+                      onPress={() => accept(invite)}
+                      loading={busy === invite.id}
+                      disabled={busy === invite.id}
+                    >
+                      Accept
+                    </Button>
+                  </>
+                ) : (
+                  <Button onPress={() => withdraw(invite)} loading={busy === invite.id} disabled={busy === invite.id}>
+                    Withdraw
+                  </Button>
+                )}
+              </Card.Actions>
+            )}
+          </Card>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
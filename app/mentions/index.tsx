@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollView, View } from 'react-native';
+import { Button, Card, Text } from 'react-native-paper';
+import { Stack, router } from 'expo-router';
+import { Timestamp } from 'firebase/firestore';
+import { useAuth } from '../_layout';
+import { ChatService, MentionNotice } from '@/services/chatService';
+import { showServiceError } from '@/components/showServiceError';
+
+const formatTimestamp = (timestamp: Timestamp): string => {
+  const date = timestamp.toDate();
+  return `${date.toLocaleDateString()} at ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+// Everywhere the user was @mentioned in a group chat, newest first
+export default function MentionsScreen() {
+  const { user: authUser } = useAuth();
+  const [mentions, setMentions]   = useState<MentionNotice[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!authUser?.uid) return;
+    setLoadError(null);
+    const unsubscribe = ChatService.subscribeToMentions(authUser.uid, setMentions, (error) => setLoadError(error.message));
+    return () => unsubscribe();
+  }, [authUser?.uid, reloadKey]);
+
+  const unreadIds = mentions.filter((m) => !m.read).map((m) => m.id);
+
+  /* ---------------------------------------------------------------- */
+  const open = (mention: MentionNotice) => {
+    if (!authUser) return;
+    if (!mention.read) ChatService.markMentionsRead(authUser.uid, [mention.id]);
+    router.push({ pathname: '/(tabs)/chat', params: { chatId: mention.chatId, chatType: 'group', messageId: mention.id } });
+  };
+
+  const markAllRead = async () => {
+    if (!authUser) return;
+    const result = await ChatService.markMentionsRead(authUser.uid, unreadIds);
+    if (!result.ok) showServiceError('Could not mark mentions as read', result.error, markAllRead);
+  };
+
+  /* ---------------------------------------------------------------- */
+  return (
+    <View style={{ flex: 1 }}>
+      <Stack.Screen options={{ title: 'Mentions', headerShown: true }} />
+
+      {unreadIds.length > 0 && (
+        <Button style={{ alignSelf: 'flex-end', margin: 8 }} onPress={markAllRead}>
+          Mark all as read
+        </Button>
+      )}
+
+      <ScrollView>
+        {loadError && (
+          <View style={{ alignItems: 'center', margin: 16 }}>
+            <Text style={{ color: '#666', marginBottom: 8 }}>{loadError}</Text>
+            <Button mode="outlined" onPress={() => setReloadKey((k) => k + 1)}>Retry</Button>
+          </View>
+        )}
+
+        {!loadError && mentions.length === 0 && (
+          <Text style={{ textAlign: 'center', color: '#666', margin: 16 }}>
+            No one has mentioned you yet. When someone writes @{authUser?.displayName || 'you'} in a project chat, it shows up here.
+          </Text>
+        )}
+
+        {mentions.map((mention) => (
+          <Card key={mention.id} style={{ margin: 8 }} mode={mention.read ? 'outlined' : 'elevated'} onPress={() => open(mention)}>
+            <Card.Title
+              title={mention.chatName}
+              titleStyle={!mention.read && { fontWeight: 'bold' }}
+              subtitle={`${mention.senderName} · ${formatTimestamp(mention.createdAt)}`}
+            />
+            <Card.Content>
+              <Text numberOfLines={3}>{mention.text}</Text>
+            </Card.Content>
+          </Card>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollView, View } from 'react-native';
+import { Button, Searchbar, Text } from 'react-native-paper';
+import { Stack, router } from 'expo-router';
+import { useAuth } from '../_layout';
+import { ChatService, MessageSearchHit, SearchableChat } from '@/services/chatService';
+import { ServiceError } from '@/services/serviceResult';
+import { MessageSearchResults } from '@/components/chat/MessageSearchResults';
+
+// Search messages across every chat I'm in
+export default function MessageSearchScreen() {
+  const { user: authUser } = useAuth();
+  const [chats, setChats]         = useState<SearchableChat[] | null>(null);
+  const [loadError, setLoadError] = useState<ServiceError | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [queryText, setQueryText] = useState('');
+  const [hits, setHits]           = useState<MessageSearchHit[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [failedChats, setFailedChats] = useState<SearchableChat[]>([]);
+
+  useEffect(() => {
+    if (!authUser?.uid) return;
+    let cancelled = false;
+    setLoadError(null);
+    ChatService.getSearchableChats(authUser.uid).then((result) => {
+      if (cancelled) return;
+      if (result.ok) {
+        setChats(result.value);
+      } else {
+        setLoadError(result.error);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [authUser?.uid, reloadKey]);
+
+  /* ---------------------------------------------------------------- */
+  const search = async () => {
+    if (!chats) return;
+    setSearching(true);
+    setSearchError(null);
+    try {
+      const result = await ChatService.searchMessages(chats, queryText);
+      if (result.ok) {
+        setHits(result.value.hits);
+        setFailedChats(result.value.failedChats);
+      } else {
+        setHits(null);
+        setFailedChats([]);
+        setSearchError(result.error.message);
+      }
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const open = (hit: MessageSearchHit) => {
+    router.push({
+      pathname: '/(tabs)/chat',
+      params: { chatId: hit.chatId, chatType: hit.threadType, messageId: hit.messageId },
+    });
+  };
+
+  /* ---------------------------------------------------------------- */
+  return (
+    <View style={{ flex: 1 }}>
+      <Stack.Screen options={{ title: 'Search messages', headerShown: true }} />
+
+      <Searchbar
+        placeholder="Search all my chats"
+        value={queryText}
+        onChangeText={setQueryText}
+        onSubmitEditing={search}
+        onIconPress={search}
+        editable={!!chats}
+        style={{ margin: 8 }}
+      />
+
+      <ScrollView>
+        {loadError && (
+          <View style={{ alignItems: 'center', margin: 16 }}>
+            <Text style={{ color: '#666', marginBottom: 8 }}>{loadError.message}</Text>
+            {loadError.retryable && (
+              <Button mode="outlined" onPress={() => setReloadKey((k) => k + 1)}>Retry</Button>
+            )}
+          </View>
+        )}
+
+        {!loadError && chats?.length === 0 && (
+          <Text style={{ textAlign: 'center', color: '#666', margin: 16 }}>
+            You aren&apos;t in any chats yet.
+          </Text>
+        )}
+
+        {!searching && failedChats.length > 0 && (
+          <Text style={{ textAlign: 'center', color: '#666', marginHorizontal: 16, marginTop: 8 }}>
+            Couldn&apos;t search {failedChats.map((chat) => chat.chatName).join(', ')}.
+          </Text>
+        )}
+
+        <MessageSearchResults hits={hits} searching={searching} error={searchError} onSelect={open} />
+      </ScrollView>
+    </View>
+  );
+}
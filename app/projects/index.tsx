@@ -1,14 +1,51 @@
-import React, { useState } from 'react';
-import { View } from 'react-native';
-import { Card, SegmentedButtons } from 'react-native-paper';
+import React, { useEffect, useState } from 'react';
+import { ScrollView, View } from 'react-native';
+import { Button, Card, Menu, SegmentedButtons, Text } from 'react-native-paper';
 import { Stack } from 'expo-router';
+import { useAuth } from '../_layout';
+import {
+  Project,
+  ProjectService,
+  ProjectStatus,
+  PROJECT_STATUS_LABELS,
+  PROJECT_STATUS_TRANSITIONS,
+} from '@/services/projectService';
+import { showServiceError } from '@/components/showServiceError';
 
-const current  = [{ id: 'c1', title: 'Spider Robot',          role: 'ML Engineer' }];
-const finished = [{ id: 'f1', title: 'CS147 Design Project',  role: 'Designer'    }];
+type Section = 'current' | 'finished' | 'archived';
+
+const SECTION_STATUSES: Record<Section, ProjectStatus[]> = {
+  current:  ['open', 'full', 'in_progress'],
+  finished: ['finished'],
+  archived: ['archived'],
+};
 
 export default function ProjectsScreen() {
-  const [section, setSection] = useState<'current' | 'finished'>('current');
-  const data = section === 'current' ? current : finished;
+  const { user: authUser } = useAuth();
+  const [section, setSection]   = useState<Section>('current');
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [menuFor, setMenuFor]   = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authUser?.uid) return;
+    const unsubscribe = ProjectService.subscribeToUserProjects(authUser.uid, setProjects);
+    return () => unsubscribe();
+  }, [authUser?.uid]);
+
+  const data = projects.filter((p) => SECTION_STATUSES[section].includes(p.status));
+
+  const changeStatus = async (project: Project, status: ProjectStatus) => {
+    setMenuFor(null);
+    if (!authUser) return;
+    const result = await ProjectService.updateProjectStatus(project.id, authUser.uid, status);
+    if (!result.ok) {
+      showServiceError(
+        `Could not mark "${project.title}" as ${PROJECT_STATUS_LABELS[status]}`,
+        result.error,
+        () => changeStatus(project, status)
+      );
+    }
+  };
 
   return (
     <View style={{ flex: 1 }}>
@@ -16,19 +53,55 @@ export default function ProjectsScreen() {
 
       <SegmentedButtons
         value={section}
-        onValueChange={(v) => setSection(v as any)}
+        onValueChange={(v) => setSection(v as Section)}
         buttons={[
           { value: 'current',  label: 'Current'  },
           { value: 'finished', label: 'Finished' },
+          { value: 'archived', label: 'Archived' },
         ]}
         style={{ margin: 8 }}
       />
 
-      {data.map((p) => (
-        <Card key={p.id} style={{ margin: 8 }}>
-          <Card.Title title={p.title} subtitle={p.role} />
-        </Card>
-      ))}
+      <ScrollView>
+        {data.length === 0 && (
+          <Text style={{ textAlign: 'center', color: '#666', margin: 16 }}>
+            No projects here yet.
+          </Text>
+        )}
+
+        {data.map((p) => {
+          const isOwner = p.ownerId === authUser?.uid;
+          const role = isOwner ? 'Owner' : 'Member';
+          const team = p.maxMembers ? `${p.memberIds.length}/${p.maxMembers}` : `${p.memberIds.length}`;
+          const nextStatuses = PROJECT_STATUS_TRANSITIONS[p.status];
+
+          return (
+            <Card key={p.id} style={{ margin: 8 }}>
+              <Card.Title
+                title={p.title}
+                subtitle={`${role} · ${PROJECT_STATUS_LABELS[p.status]} · ${team} members`}
+              />
+              {isOwner && nextStatuses.length > 0 && (
+                <Card.Actions>
+                  <Menu
+                    visible={menuFor === p.id}
+                    onDismiss={() => setMenuFor(null)}
+                    anchor={<Button onPress={() => setMenuFor(p.id)}>Change status</Button>}
+                  >
+                    {nextStatuses.map((status) => (
+                      <Menu.Item
+                        key={status}
+                        onPress={() => changeStatus(p, status)}
+                        title={PROJECT_STATUS_LABELS[status]}
+                      />
+                    ))}
+                  </Menu>
+                </Card.Actions>
+              )}
+            </Card>
+          );
+        })}
+      </ScrollView>
     </View>
   );
-}
\ No newline at end of file
+}
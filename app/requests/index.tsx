@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, View } from 'react-native';
+import { Button, Card, Text } from 'react-native-paper';
+import { Stack, router } from 'expo-router';
+import { Timestamp } from 'firebase/firestore';
+import { useAuth } from '../_layout';
+import { ChatService, ProjectRequest } from '@/services/chatService';
+import { showServiceError } from '@/components/showServiceError';
+import { RequestStatusLabel } from '@/components/RequestStatusLabel';
+
+const formatTimestamp = (timestamp: Timestamp): string => {
+  const date = timestamp.toDate();
+  return `${date.toLocaleDateString()} at ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+// What the owner did with the request, or what the requester did themselves
+const describeResponse = (request: ProjectRequest): string => {
+  const respondedAt = request.respondedAt ?? request.updatedAt;
+  switch (request.status) {
+    case 'pending':
+      return 'Waiting for the project owner to respond.';
+    case 'accepted':
+      return `Accepted on ${formatTimestamp(respondedAt)}. You're on the team!`;
+    case 'declined':
+      return request.declineReason
+        ? `Declined on ${formatTimestamp(respondedAt)}: "${request.declineReason}"`
+        : `Declined on ${formatTimestamp(respondedAt)}.`;
+    case 'withdrawn':
+      return `You withdrew this request on ${formatTimestamp(respondedAt)}.`;
+  }
+};
+
+export default function RequestsScreen() {
+  const { user: authUser } = useAuth();
+  const [requests, setRequests]       = useState<ProjectRequest[]>([]);
+  const [loadError, setLoadError]     = useState<string | null>(null);
+  const [reloadKey, setReloadKey]     = useState(0);
+  const [withdrawing, setWithdrawing] = useState<string | null>(null);
+  const [opening, setOpening]         = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authUser?.uid) return;
+    setLoadError(null);
+    const unsubscribe = ChatService.subscribeToUserRequestHistory(
+      authUser.uid,
+      setRequests,
+      (error) => setLoadError(error.message)
+    );
+    return () => unsubscribe();
+  }, [authUser?.uid, reloadKey]);
+
+  const withdraw = (request: ProjectRequest) => {
+    if (!authUser) return;
+
+    const confirmWithdraw = async () => {
+      setWithdrawing(request.id);
+      try {
+        const result = await ChatService.withdrawProjectRequest(request.id, authUser.uid);
+        if (!result.ok) {
+          showServiceError('Could not withdraw request', result.error, confirmWithdraw);
+        }
+      } finally {
+        setWithdrawing(null);
+      }
+    };
+
+    Alert.alert(
+      'Withdraw request?',
+      `Your request to join "${request.projectName}" will be cancelled.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Withdraw', style: 'destructive', onPress: confirmWithdraw },
+      ]
+    );
+  };
+
+  // Accepted requests lead to the project's group chat, everything else to the request DM
+  const openChat = async (request: ProjectRequest) => {
+    if (!authUser) return;
+    setOpening(request.id);
+    try {
+      if (request.status === 'accepted') {
+        const result = await ChatService.getGroupChatByProjectId(request.projectId, authUser.uid);
+        if (!result.ok) {
+          showServiceError('Could not open chat', result.error, () => openChat(request));
+        } else if (!result.value) {
+          Alert.alert('Chat unavailable', 'This project no longer has an active group chat.');
+        } else {
+          router.push({ pathname: '/(tabs)/chat', params: { chatId: result.value.id, chatType: 'group' } });
+        }
+        return;
+      }
+
+      const result = await ChatService.getRequestDMByRequestId(request.id, authUser.uid, false);
+      if (!result.ok) {
+        showServiceError('Could not open chat', result.error, () => openChat(request));
+      } else if (!result.value) {
+        Alert.alert('Chat unavailable', 'This conversation no longer exists.');
+      } else {
+        router.push({ pathname: '/(tabs)/chat', params: { chatId: result.value.id, chatType: 'request_dm' } });
+      }
+    } finally {
+      setOpening(null);
+    }
+  };
+
+  return (
+    <View style={{ flex: 1 }}>
+      <Stack.Screen options={{ title: 'My Requests', headerShown: true }} />
+
+      <ScrollView>
+        {loadError && (
+          <View style={{ alignItems: 'center', margin: 16 }}>
+            <Text style={{ color: '#666', marginBottom: 8 }}>{loadError}</Text>
+            <Button mode="outlined" onPress={() => setReloadKey((k) => k + 1)}>Retry</Button>
+          </View>
+        )}
+
+        {!loadError && requests.length === 0 && (
+          <Text style={{ textAlign: 'center', color: '#666', margin: 16 }}>
+            You haven&apos;t asked to join any projects yet.
+          </Text>
+        )}
+
+        {requests.map((r) => {
+          const canOpenChat = r.status === 'accepted' || r.hasDM;
+
+          return (
+            <Card key={r.id} style={{ margin: 8 }}>
+              <Card.Title
+                title={r.projectName}
+                subtitle={`Sent ${formatTimestamp(r.createdAt)}`}
+                right={() => <RequestStatusLabel status={r.status} />}
+              />
+              <Card.Content>
+                {!!r.message && (
+                  <Text style={{ fontStyle: 'italic', marginBottom: 8 }}>&quot;{r.message}&quot;</Text>
+                )}
+                <Text style={{ color: '#666' }}>{describeResponse(r)}</Text>
+              </Card.Content>
+              {(r.status === 'pending' || canOpenChat) && (
+                <Card.Actions>
+                  {canOpenChat && (
+                    <Button
+                      onPress={() => openChat(r)}
+                      loading={opening === r.id}
+                      disabled={opening === r.id}
+                    >
+                      {r.status === 'accepted' ? 'Open group chat' : 'Open conversation'}
+                    </Button>
+                  )}
+                  {r.status === 'pending' && (
+                    <Button
+                      onPress={() => withdraw(r)}
+                      loading={withdrawing === r.id}
+                      disabled={withdrawing === r.id}
+                    >
+                      Withdraw
+                    </Button>
+                  )}
+                </Card.Actions>
+              )}
+            </Card>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
@@ -0,0 +1,317 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, View } from 'react-native';
+import {
+  ActivityIndicator,
+  Avatar,
+  Button,
+  Card,
+  Chip,
+  Dialog,
+  List,
+  Portal,
+  Text,
+  useTheme,
+} from 'react-native-paper';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '../_layout';
+import { PublicProfile, UserService } from '@/services/userService';
+import { ChatService } from '@/services/chatService';
+import { Friend, FriendService } from '@/services/friendService';
+import { Project, ProjectService, PROJECT_STATUS_LABELS } from '@/services/projectService';
+import { PresenceService } from '@/services/presenceService';
+import { usePresence } from '@/hooks/usePresence';
+import { ServiceError } from '@/services/serviceResult';
+import { showServiceError } from '@/components/showServiceError';
+import { startDirectChat } from '@/components/startDirectChat';
+
+// Read-only profile of another user, reached from join requests, feed cards and member lists
+export default function UserProfileScreen() {
+  const { uid } = useLocalSearchParams<{ uid: string }>();
+  const { user: authUser } = useAuth();
+  const { colors } = useTheme();
+
+  const [profile, setProfile]     = useState<PublicProfile | null>(null);
+  const [loadError, setLoadError] = useState<ServiceError | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [projects, setProjects]   = useState<Project[]>([]);
+  const [friend, setFriend]       = useState<Friend | null>(null);
+  const [busy, setBusy]           = useState<'message' | 'friend' | null>(null);
+
+  const [myProjects, setMyProjects]         = useState<Project[]>([]);
+  const [invitedTo, setInvitedTo]           = useState<Set<string>>(new Set()); // Projects with a pending invite
+  const [inviteVisible, setInviteVisible]   = useState(false);
+  const [inviting, setInviting]             = useState<string | null>(null); // Project being invited to
+
+  const isMe = !!authUser && authUser.uid === uid;
+  const presence = usePresence(uid ? [uid] : []);
+
+  useEffect(() => {
+    if (!uid) return;
+    let cancelled = false;
+    setLoadError(null);
+    UserService.getPublicProfile(uid).then((result) => {
+      if (cancelled) return;
+      if (result.ok) {
+        setProfile(result.value);
+      } else {
+        setLoadError(result.error);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [uid, reloadKey]);
+
+  useEffect(() => {
+    if (!uid) return;
+    const unsubscribe = ProjectService.subscribeToUserProjects(uid, setProjects);
+    return () => unsubscribe();
+  }, [uid]);
+
+  useEffect(() => {
+    if (!uid || !authUser?.uid || isMe) return;
+    const unsubscribe = FriendService.subscribeToFriendship(authUser.uid, uid, setFriend);
+    return () => unsubscribe();
+  }, [uid, authUser?.uid, isMe]);
+
+  useEffect(() => {
+    if (!uid || !authUser?.uid || isMe) return;
+    const unsubscribeProjects = ProjectService.subscribeToUserProjects(authUser.uid, setMyProjects);
+    const unsubscribeInvites = ChatService.subscribeToSentInvites(authUser.uid, (invites) => {
+      setInvitedTo(new Set(
+        invites.filter((i) => i.toUserId === uid && i.status === 'pending').map((i) => i.projectId)
+      ));
+    });
+    return () => {
+      unsubscribeProjects();
+      unsubscribeInvites();
+    };
+  }, [uid, authUser?.uid, isMe]);
+
+  // Open projects I own that this user isn't already on
+  const invitableProjects = myProjects.filter(
+    (p) => p.ownerId === authUser?.uid && p.status === 'open' && !p.memberIds.includes(uid)
+  );
+
+  // Archived projects only show up in their members' own project list
+  const visibleProjects = projects.filter((p) => p.status !== 'archived');
+
+  /* ---------------------------------------------------------------- */
+  const message = async () => {
+    if (!authUser || !profile) return;
+    setBusy('message');
+    try {
+      await startDirectChat(authUser.uid, { userId: profile.userId, displayName: profile.name, email: profile.email });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const addFriend = async () => {
+    if (!authUser || !profile) return;
+    setBusy('friend');
+    try {
+      const me = await FriendService.getProfile(authUser.uid);
+      if (!me.ok) return showServiceError('Could not send request', me.error, addFriend);
+
+      const result = await FriendService.sendFriendRequest(me.value, {
+        userId: profile.userId,
+        displayName: profile.name,
+        email: profile.email,
+        photoURL: profile.photoURL,
+      });
+      if (!result.ok) showServiceError('Could not send request', result.error, addFriend);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const acceptFriend = async () => {
+    if (!authUser || !friend) return;
+    setBusy('friend');
+    try {
+      const result = await FriendService.acceptFriendRequest(friend.friendshipId, authUser.uid);
+      if (!result.ok) showServiceError('Could not accept request', result.error, acceptFriend);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const invite = async (project: Project) => {
+    if (!authUser || !profile) return;
+    setInviting(project.id);
+    try {
+      const me = await FriendService.getProfile(authUser.uid);
+      if (!me.ok) return showServiceError('Could not send invite', me.error, () => invite(project));
+
+      const result = await ChatService.inviteToProject(
+        { userId: me.value.userId, displayName: me.value.displayName, email: me.value.email },
+        { userId: profile.userId, displayName: profile.name, email: profile.email },
+        project.id
+      );
+      if (!result.ok) showServiceError('Could not send invite', result.error, () => invite(project));
+    } finally {
+      setInviting(null);
+    }
+  };
+
+  /* ---------------------------------------------------------------- */
+  const friendButton = () => {
+    if (friend?.status === 'accepted') {
+      return <Button icon="account-check" disabled>Friends</Button>;
+    }
+    if (friend?.direction === 'outgoing') {
+      return <Button icon="account-clock" disabled>Request sent</Button>;
+    }
+    if (friend?.direction === 'incoming') {
+      return (
+        <Button icon="account-plus" mode="contained-tonal" onPress={acceptFriend} loading={busy === 'friend'} disabled={!!busy}>
+          Accept request
+        </Button>
+      );
+    }
+    return (
+      <Button icon="account-plus" mode="contained-tonal" onPress={addFriend} loading={busy === 'friend'} disabled={!!busy}>
+        Add friend
+      </Button>
+    );
+  };
+
+  if (loadError) {
+    return (
+      <View style={[styles.container, styles.centerContent]}>
+        <Stack.Screen options={{ title: 'Profile', headerShown: true }} />
+        <Text style={{ color: '#666', marginBottom: 8 }}>{loadError.message}</Text>
+        {loadError.retryable && (
+          <Button mode="outlined" onPress={() => setReloadKey((k) => k + 1)}>Retry</Button>
+        )}
+      </View>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <View style={[styles.container, styles.centerContent]}>
+        <Stack.Screen options={{ title: 'Profile', headerShown: true }} />
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Stack.Screen options={{ title: profile.name, headerShown: true }} />
+
+      <Card mode="contained" style={styles.card}>
+        <Card.Content style={styles.center}>
+          {profile.photoURL ? (
+            <Avatar.Image size={96} source={{ uri: profile.photoURL }} />
+          ) : (
+            <Avatar.Image size={96} source={require('@/assets/images/profile-sample.png')} />
+          )}
+          <Text variant="headlineSmall" style={styles.nameText}>{profile.name}</Text>
+          {!!profile.major && <Text variant="bodyMedium" style={styles.mutedText}>{profile.major}</Text>}
+          <View style={styles.presenceRow}>
+            <List.Icon
+              icon="circle"
+              color={presence[profile.userId]?.online ? colors.primary : colors.onSurfaceDisabled}
+              style={styles.presenceDot}
+            />
+            <Text variant="bodySmall" style={styles.mutedText}>
+              {PresenceService.describe(presence[profile.userId])}
+            </Text>
+          </View>
+          <Text variant="bodySmall" style={styles.mutedText}>
+            {profile.friendsCount} friends · {visibleProjects.length} projects
+          </Text>
+        </Card.Content>
+
+        {isMe ? (
+          <Card.Actions style={styles.actions}>
+            <Button onPress={() => router.replace('/(tabs)/profile')}>Edit my profile</Button>
+          </Card.Actions>
+        ) : (
+          <Card.Actions style={styles.actions}>
+            <Button icon="message-outline" mode="contained" onPress={message} loading={busy === 'message'} disabled={!!busy}>
+              Message
+            </Button>
+            {friendButton()}
+            {invitableProjects.length > 0 && (
+              <Button icon="email-plus-outline" onPress={() => setInviteVisible(true)}>Invite</Button>
+            )}
+          </Card.Actions>
+        )}
+      </Card>
+
+      <Card mode="contained" style={styles.card}>
+        <Card.Title title="Bio" />
+        <Card.Content>
+          <Text variant="bodyMedium">{profile.bio || 'No bio yet.'}</Text>
+        </Card.Content>
+      </Card>
+
+      <Card mode="contained" style={styles.card}>
+        <Card.Title title="Tags" />
+        <Card.Content style={styles.rowWrap}>
+          {profile.tags.length === 0 && <Text style={styles.mutedText}>No tags yet.</Text>}
+          {profile.tags.map((t) => (<Chip key={t} style={styles.chip}>{t}</Chip>))}
+        </Card.Content>
+      </Card>
+
+      <Card mode="contained" style={styles.card}>
+        <Card.Title title="Projects" />
+        <Card.Content>
+          {visibleProjects.length === 0 && <Text style={styles.mutedText}>No projects yet.</Text>}
+          {visibleProjects.map((p) => (
+            <List.Item
+              key={p.id}
+              title={p.title}
+              description={`${p.ownerId === profile.userId ? 'Owner' : 'Member'} · ${PROJECT_STATUS_LABELS[p.status]}`}
+              left={(props) => <List.Icon {...props} icon="folder-outline" />}
+            />
+          ))}
+        </Card.Content>
+      </Card>
+
+      <Portal>
+        <Dialog visible={inviteVisible} onDismiss={() => setInviteVisible(false)}>
+          <Dialog.Title>Invite {profile.name}</Dialog.Title>
+          <Dialog.Content>
+            {invitableProjects.map((p) => (
+              <List.Item
+                key={p.id}
+                title={p.title}
+                description={p.maxMembers ? `${p.memberIds.length}/${p.maxMembers} members` : `${p.memberIds.length} members`}
+                right={() =>
+                  invitedTo.has(p.id) ? (
+                    <Button disabled>Invited</Button>
+                  ) : (
+                    <Button onPress={() => invite(p)} loading={inviting === p.id} disabled={!!inviting}>
+                      Invite
+                    </Button>
+                  )
+                }
+              />
+            ))}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setInviteVisible(false)}>Done</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </ScrollView>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+const styles = StyleSheet.create({
+  container:     { flexGrow: 1, padding: 24, gap: 20, backgroundColor: '#f5f5f5' },
+  centerContent: { justifyContent: 'center', alignItems: 'center' },
+  card:          { borderRadius: 16, backgroundColor: 'white' },
+  center:        { alignItems: 'center', paddingVertical: 10 },
+  nameText:      { marginTop: 8, fontWeight: 'bold', textAlign: 'center' },
+  mutedText:     { color: 'gray', textAlign: 'center' },
+  presenceRow:   { flexDirection: 'row', alignItems: 'center', marginVertical: 4 },
+  presenceDot:   { margin: 0, marginRight: -4, transform: [{ scale: 0.5 }] },
+  actions:       { justifyContent: 'center' },
+  rowWrap:       { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  chip:          { marginVertical: 4 },
+});
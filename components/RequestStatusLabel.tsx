@@ -0,0 +1,25 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { ProjectRequestStatus, REQUEST_STATUS_LABELS } from '@/services/chatService';
+
+const STATUS_COLORS: Record<ProjectRequestStatus, string> = {
+  pending:   '#FF9800',
+  accepted:  '#4CAF50',
+  declined:  '#F44336',
+  withdrawn: '#9E9E9E',
+};
+
+// Colored status text for a project join request
+export const RequestStatusLabel: React.FC<{ status: ProjectRequestStatus }> = ({ status }) => (
+  <Text style={[styles.label, { color: STATUS_COLORS[status] }]}>
+    {REQUEST_STATUS_LABELS[status]}
+  </Text>
+);
+
+const styles = StyleSheet.create({
+  label: {
+    fontWeight: 'bold',
+    marginRight: 16,
+  },
+});
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, Image, Linking, Pressable } from 'react-native';
+import { ActivityIndicator, Icon, Text } from 'react-native-paper';
+import { AttachmentService, ChatAttachment } from '@/services/attachmentService';
+
+const THUMBNAIL_WIDTH = 220;
+
+// Image thumbnail or file card for a chat message attachment
+export const ChatAttachmentView: React.FC<{
+  attachment: ChatAttachment;
+  textColor: string;
+}> = ({ attachment, textColor }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState<boolean>(false);
+  const isImage = AttachmentService.isImage(attachment);
+
+  // Download URLs are only handed out to chat members, so resolve them on demand
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(null);
+    setFailed(false);
+
+    AttachmentService.getAttachmentURL(attachment).then((result) => {
+      if (cancelled) return;
+      if (result.ok) {
+        setUrl(result.value);
+      } else {
+        setFailed(true);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.storagePath]);
+
+  const openAttachment = () => {
+    if (url) {
+      Linking.openURL(url).catch((error) => console.error('Error opening attachment:', error));
+    }
+  };
+
+  if (isImage) {
+    const aspectRatio = attachment.width && attachment.height
+      ? attachment.width / attachment.height
+      : 4 / 3;
+
+    return (
+      <Pressable onPress={openAttachment} style={[styles.thumbnail, { aspectRatio }]}>
+        {url ? (
+          <Image source={{ uri: url }} style={styles.thumbnailImage} resizeMode="cover" />
+        ) : failed ? (
+          <Text style={[styles.unavailable, { color: textColor }]}>Image unavailable</Text>
+        ) : (
+          <ActivityIndicator />
+        )}
+      </Pressable>
+    );
+  }
+
+  return (
+    <Pressable onPress={openAttachment} style={styles.fileCard} disabled={!url}>
+      <Icon source="file-document-outline" size={32} color={textColor} />
+      <View style={styles.fileInfo}>
+        <Text numberOfLines={1} style={[styles.fileName, { color: textColor }]}>
+          {attachment.name}
+        </Text>
+        <Text variant="labelSmall" style={{ color: textColor }}>
+          {failed ? 'Unavailable' : AttachmentService.formatSize(attachment.size)}
+        </Text>
+      </View>
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  thumbnail: {
+    width: THUMBNAIL_WIDTH,
+    maxHeight: 320,
+    borderRadius: 12,
+    overflow: 'hidden',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.08)',
+  },
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+  unavailable: {
+    fontStyle: 'italic',
+    opacity: 0.7,
+  },
+  fileCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minWidth: 180,
+    paddingVertical: 4,
+  },
+  fileInfo: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  fileName: {
+    fontWeight: 'bold',
+  },
+});
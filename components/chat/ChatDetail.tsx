@@ -1,5 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { StyleSheet, FlatList, View, KeyboardAvoidingView, Platform, Alert } from 'react-native';
+import {
+  StyleSheet,
+  FlatList,
+  View,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  Pressable,
+} from 'react-native';
 import {
   Appbar,
   Button,
@@ -9,36 +17,137 @@ import {
   useTheme,
   Divider,
   ActivityIndicator,
+  IconButton,
+  ProgressBar,
+  Chip,
+  List,
 } from 'react-native-paper';
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
 import { ThemedView } from '@/components/ThemedView';
 import { ChatItem } from '@/app/(tabs)/chat';
-import { ChatService, FirebaseChatMessage, RequestDMMessage } from '@/services/chatService';
+import {
+  ChatService,
+  FirebaseChatMember,
+  FirebaseChatMessage,
+  FirebaseGroupChat,
+  MessageCursor,
+  MessagePage,
+  MESSAGE_REACTIONS,
+  MessageReaction,
+  MessageMention,
+  MessageReactions,
+  MessageReplyRef,
+  RequestDM,
+  RequestDMMessage,
+} from '@/services/chatService';
+import { ChatAttachment, MAX_ATTACHMENT_BYTES, PickedAttachment } from '@/services/attachmentService';
+import { Result, ServiceError } from '@/services/serviceResult';
 import { useAuth } from '@/app/_layout';
-import { Timestamp } from 'firebase/firestore';
+import { showServiceError } from '@/components/showServiceError';
+import { startDirectChat } from '@/components/startDirectChat';
+import { ChatAttachmentView } from './ChatAttachmentView';
+import { ChatMembersDialog } from './ChatMembersDialog';
+import { MessageActionsDialog } from './MessageActionsDialog';
+import { MessageSearchDialog } from './MessageSearchDialog';
+import { MessageThreadDialog } from './MessageThreadDialog';
+import { FriendService } from '@/services/friendService';
+import { PresenceService } from '@/services/presenceService';
+import { usePresence } from '@/hooks/usePresence';
+import { useTypingPublisher, useTypingUsers } from '@/hooks/useTyping';
+import { TypingService } from '@/services/typingService';
 
 interface Message {
   id: string;
   text: string;
   sender: string;
   timestamp: string;
+  sentAt: number; // Milliseconds, used to order merged pages
+  senderId: string;
   isCurrentUser: boolean;
   type?: 'text' | 'system';
+  attachment?: ChatAttachment;
+  edited?: boolean;
+  deleted?: boolean;
+  reactions?: MessageReactions;
+  replyTo?: MessageReplyRef;
+  mentions?: MessageMention[];
 }
 
+// Longest name fragment after "@" that still suggests members
+const MAX_MENTION_QUERY = 30;
+
+// Most older pages to load while looking for a message to jump to
+const JUMP_MAX_PAGES = 10;
+
+// Split message text into plain runs and the mentions in it, skipping ranges
+// that no longer line up with an "@" (e.g. after the message was edited)
+const splitMentions = (text: string, mentions: MessageMention[] = []): { text: string; userId?: string }[] => {
+  const parts: { text: string; userId?: string }[] = [];
+  let cursor = 0;
+  [...mentions]
+    .sort((a, b) => a.start - b.start)
+    .filter(mention => text[mention.start] === '@' && mention.start + mention.length <= text.length)
+    .forEach(mention => {
+      if (mention.start < cursor) return;
+      if (mention.start > cursor) parts.push({ text: text.slice(cursor, mention.start) });
+      parts.push({ text: text.slice(mention.start, mention.start + mention.length), userId: mention.userId });
+      cursor = mention.start + mention.length;
+    });
+  if (cursor < text.length) parts.push({ text: text.slice(cursor) });
+  return parts;
+};
+
+// Merge message lists by ID (later lists win) and order them oldest first
+const mergeMessages = (...lists: Message[][]): Message[] => {
+  const byId = new Map<string, Message>();
+  lists.forEach(list => list.forEach(message => byId.set(message.id, message)));
+  return Array.from(byId.values()).sort((a, b) => a.sentAt - b.sentAt);
+};
+
 // Chat Detail Component
 export const ChatDetail: React.FC<{
   chat: ChatItem;
   onBack: () => void;
   onMessageSent?: (chatId: string, messageText: string) => void;
-}> = ({ chat, onBack, onMessageSent }) => {
+  focusMessageId?: string; // Message to scroll to once loaded, e.g. from search
+}> = ({ chat, onBack, onMessageSent, focusMessageId }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(true);
   const [sendingMessage, setSendingMessage] = useState<boolean>(false);
   const [lastMessageId, setLastMessageId] = useState<string | null>(null);
+  const [hasMoreOlder, setHasMoreOlder] = useState<boolean>(false);
+  const [loadingOlder, setLoadingOlder] = useState<boolean>(false);
+  const [groupChat, setGroupChat] = useState<FirebaseGroupChat | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [loadError, setLoadError] = useState<ServiceError | null>(null);
+  const [reloadKey, setReloadKey] = useState<number>(0); // Bumped to resubscribe after an error
+  const [showMembers, setShowMembers] = useState<boolean>(false);
+  const [showSearch, setShowSearch] = useState<boolean>(false);
+  const [requestDM, setRequestDM] = useState<RequestDM | null>(null);
+  const [receiptsExpanded, setReceiptsExpanded] = useState<boolean>(false);
+  const [actionMessage, setActionMessage] = useState<Message | null>(null); // Message whose long-press menu is open
+  const [replyingTo, setReplyingTo] = useState<MessageReplyRef | null>(null);
+  const [threadParent, setThreadParent] = useState<MessageReplyRef | null>(null); // Message whose thread is open
+  const [highlightedId, setHighlightedId] = useState<string | null>(null); // Message just jumped to from a reply or search
+  const [selection, setSelection] = useState<{ start: number; end: number }>({ start: 0, end: 0 });
+  const [forcedSelection, setForcedSelection] = useState<{ start: number; end: number }>(); // Cursor to move to after a pick
+  const [senderName, setSenderName] = useState<string>('Anonymous'); // Our profile name, shown on messages and typing
   const { user: authUser } = useAuth();
   const theme = useTheme();
 
+  // Live window of the newest messages and the older pages loaded on demand
+  const liveMessagesRef = useRef<Message[]>([]);
+  const olderMessagesRef = useRef<Message[]>([]);
+  const olderCursorRef = useRef<MessageCursor | null>(null);
+  // Set while older messages are prepended so we don't jump to the bottom
+  const prependingRef = useRef<boolean>(false);
+  // Message to scroll to once a jump has loaded it, and the search pick already handled
+  const pendingJumpRef = useRef<string | null>(null);
+  const focusedIdRef = useRef<string | null>(null);
+
   // Ref for auto-scrolling to bottom
   const flatListRef = useRef<FlatList>(null);
 
@@ -66,8 +175,16 @@ export const ChatDetail: React.FC<{
         hour: '2-digit', 
         minute: '2-digit' 
       }),
+      sentAt: firebaseMsg.timestamp.toMillis(),
+      senderId: firebaseMsg.senderId,
       isCurrentUser: firebaseMsg.senderId === authUser?.uid,
-      type: 'text'
+      type: firebaseMsg.type === 'system' ? 'system' : 'text',
+      attachment: firebaseMsg.attachment,
+      edited: firebaseMsg.edited,
+      deleted: firebaseMsg.deleted,
+      reactions: firebaseMsg.reactions,
+      replyTo: firebaseMsg.replyTo,
+      mentions: firebaseMsg.mentions
     };
   };
 
@@ -81,20 +198,272 @@ export const ChatDetail: React.FC<{
         hour: '2-digit', 
         minute: '2-digit' 
       }),
+      sentAt: dmMsg.timestamp.toMillis(),
+      senderId: dmMsg.senderId,
       isCurrentUser: dmMsg.senderId === authUser?.uid,
-      type: dmMsg.type === 'system' ? 'system' : 'text'
+      type: dmMsg.type === 'system' ? 'system' : 'text',
+      reactions: dmMsg.reactions
     };
   };
 
   const markMessagesAsRead = async (latestMessageId: string) => {
-    if (authUser?.uid && latestMessageId && chat.type === 'group') {
-      try {
+    if (!authUser?.uid || !latestMessageId) return;
+
+    try {
+      if (chat.type === 'group') {
         await ChatService.markMessagesAsRead(chat.id, authUser.uid, latestMessageId);
-      } catch (error) {
-        console.error('Error marking messages as read:', error);
+      } else if (chat.type === 'request_dm') {
+        await ChatService.markRequestDMAsRead(chat.id, authUser.uid);
+      } else if (chat.type === 'direct') {
+        await ChatService.markDirectChatAsRead(chat.id, authUser.uid);
+      }
+    } catch (error) {
+      console.error('Error marking messages as read:', error);
+    }
+  };
+
+  // Apply a new live window, keeping messages that slid out of it as older history
+  const applyLiveMessages = (live: Message[], page: MessagePage<unknown>) => {
+    const liveIds = new Set(live.map(message => message.id));
+    const windowStart = live.length > 0 ? live[0].sentAt : Infinity;
+    const slidOut = liveMessagesRef.current.filter(
+      message => !liveIds.has(message.id) && message.sentAt <= windowStart
+    );
+
+    if (slidOut.length > 0) {
+      olderMessagesRef.current = mergeMessages(olderMessagesRef.current, slidOut);
+    }
+    liveMessagesRef.current = live;
+
+    // The first non-empty window tells us where older history starts
+    if (!olderCursorRef.current) {
+      olderCursorRef.current = page.cursor;
+      setHasMoreOlder(page.hasMore);
+    }
+
+    setMessages(mergeMessages(olderMessagesRef.current, live));
+  };
+
+  // Fetch the page of history before the cursor, converted for display
+  const fetchOlderPage = async (cursor: MessageCursor): Promise<Result<MessagePage<Message>>> => {
+    if (chat.type === 'group') {
+      const groupPage = await ChatService.getOlderGroupChatMessages(chat.id, cursor);
+      return groupPage.ok
+        ? { ok: true, value: { ...groupPage.value, messages: groupPage.value.messages.map(convertFirebaseGroupMessage) } }
+        : groupPage;
+    }
+
+    const dmPage = chat.type === 'direct'
+      ? await ChatService.getOlderDirectChatMessages(chat.id, cursor)
+      : await ChatService.getOlderRequestDMMessages(chat.id, cursor);
+    return dmPage.ok
+      ? { ok: true, value: { ...dmPage.value, messages: dmPage.value.messages.map(convertRequestDMMessage) } }
+      : dmPage;
+  };
+
+  // Prepend an older page to the loaded history
+  const applyOlderPage = (page: MessagePage<Message>): void => {
+    olderMessagesRef.current = mergeMessages(page.messages, olderMessagesRef.current);
+    olderCursorRef.current = page.cursor;
+  };
+
+  // Load the page of messages before the oldest one shown
+  const loadOlderMessages = async (): Promise<void> => {
+    const cursor = olderCursorRef.current;
+    if (loadingOlder || !hasMoreOlder || !cursor) return;
+
+    setLoadingOlder(true);
+    prependingRef.current = true;
+
+    try {
+      const page = await fetchOlderPage(cursor);
+      if (!page.ok) {
+        prependingRef.current = false;
+        showServiceError('Could not load older messages', page.error, loadOlderMessages);
+        return;
+      }
+
+      applyOlderPage(page.value);
+      setHasMoreOlder(page.value.hasMore);
+      setMessages(mergeMessages(olderMessagesRef.current, liveMessagesRef.current));
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+      prependingRef.current = false;
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  // Scroll to a message, loading older history until it turns up
+  const jumpToMessageId = async (messageId: string): Promise<void> => {
+    if (messages.some(message => message.id === messageId)) {
+      scrollToMessage(messageId);
+      return;
+    }
+    if (loadingOlder) return;
+
+    setLoadingOlder(true);
+    prependingRef.current = true;
+
+    try {
+      let hasMore = hasMoreOlder;
+      let found = false;
+
+      for (let pages = 0; hasMore && !found && pages < JUMP_MAX_PAGES; pages++) {
+        const cursor = olderCursorRef.current;
+        if (!cursor) break;
+
+        const page = await fetchOlderPage(cursor);
+        if (!page.ok) {
+          showServiceError('Could not load older messages', page.error);
+          break;
+        }
+
+        applyOlderPage(page.value);
+        hasMore = page.value.hasMore;
+        found = page.value.messages.some(message => message.id === messageId);
+      }
+
+      setHasMoreOlder(hasMore);
+      setMessages(mergeMessages(olderMessagesRef.current, liveMessagesRef.current));
+
+      if (found) {
+        pendingJumpRef.current = messageId;
+      } else {
+        prependingRef.current = false;
+        Alert.alert('Message not found', 'That message is too far back in this chat, or it was deleted.');
       }
+    } catch (error) {
+      console.error('Error finding message:', error);
+      prependingRef.current = false;
+    } finally {
+      setLoadingOlder(false);
     }
-    // For request DMs, we don't need to track read status since they're temporary
+  };
+
+  // Finish a jump once the loaded history includes its message
+  useEffect(() => {
+    const messageId = pendingJumpRef.current;
+    if (!messageId || !messages.some(message => message.id === messageId)) return;
+
+    pendingJumpRef.current = null;
+    setTimeout(() => scrollToMessage(messageId), 100);
+  }, [messages]);
+
+  // Open on a message picked from search, once the chat has loaded
+  useEffect(() => {
+    if (!focusMessageId) {
+      focusedIdRef.current = null;
+      return;
+    }
+    if (loading || focusedIdRef.current === focusMessageId) return;
+
+    focusedIdRef.current = focusMessageId;
+    // Run after the initial scroll to the bottom
+    setTimeout(() => jumpToMessageId(focusMessageId), 400);
+  }, [loading, focusMessageId]);
+
+  // Look up our profile name once, since Auth displayName isn't set at signup
+  useEffect(() => {
+    const userId = authUser?.uid;
+    if (!userId) return;
+
+    FriendService.getProfile(userId).then((result) => {
+      if (result.ok) setSenderName(result.value.displayName);
+    });
+  }, [authUser?.uid]);
+
+  // Keep the group chat doc live for member roles and settings
+  useEffect(() => {
+    if (chat.type !== 'group') {
+      setGroupChat(null);
+      return;
+    }
+
+    const unsubscribe = ChatService.subscribeToGroupChat(chat.id, setGroupChat);
+    return () => unsubscribe();
+  }, [chat.id, chat.type]);
+
+  // Keep the request DM doc live for the other participant's read cursor
+  useEffect(() => {
+    if (chat.type !== 'request_dm') {
+      setRequestDM(null);
+      return;
+    }
+
+    const unsubscribe = ChatService.subscribeToRequestDM(chat.id, setRequestDM);
+    return () => unsubscribe();
+  }, [chat.id, chat.type]);
+
+  // Read receipts for my latest message, from everyone else's read cursor
+  const latestOwnMessage = [...messages]
+    .reverse()
+    .find(message => message.isCurrentUser && message.type !== 'system' && !message.deleted);
+  const readCursors = chat.type === 'group' ? groupChat?.members : requestDM?.participantDetails;
+  const readReceipts = latestOwnMessage && readCursors && authUser
+    ? ChatService.getReadReceipts(readCursors, authUser.uid, latestOwnMessage.sentAt)
+    : [];
+
+  const currentUserRole = authUser?.uid ? groupChat?.members[authUser.uid]?.role : undefined;
+  const isModerator = currentUserRole === 'owner' || currentUserRole === 'admin';
+  // Request DMs close, live, once the request is resolved
+  const isReadOnly = chat.type === 'request_dm'
+    ? (requestDM ? !requestDM.isActive : chat.isReadOnly)
+    : groupChat?.isReadOnly ?? chat.isReadOnly;
+
+  // Presence for the group's members, or the other side of a request DM
+  const presence = usePresence(
+    chat.type === 'group'
+      ? groupChat?.memberIds || []
+      : chat.otherUserId ? [chat.otherUserId] : []
+  );
+  const onlineCount = Object.values(presence).filter(p => p.online && p.userId !== authUser?.uid).length;
+
+  // Who is typing, shown in group chats and request DMs
+  const typingChatType = chat.type === 'group' || chat.type === 'request_dm' ? chat.type : null;
+  const publishTyping = useTypingPublisher(typingChatType, chat.id, authUser?.uid, senderName);
+  const typingNames = useTypingUsers(typingChatType, chat.id, authUser?.uid);
+
+  const handleInputChange = (text: string): void => {
+    setInputText(text);
+    if (!editingMessage) publishTyping(text);
+  };
+
+  // Everyone else in the group, who can be @mentioned
+  const mentionableMembers = Object.values(groupChat?.members || {}).filter(member => member.userId !== authUser?.uid);
+
+  // The "@name" being typed just before the cursor, if any
+  const mentionMatch = chat.type === 'group'
+    ? inputText.slice(0, selection.start).match(/(?:^|\s)@([^@\n]*)$/)
+    : null;
+  const mentionQuery = mentionMatch && mentionMatch[1].length <= MAX_MENTION_QUERY ? mentionMatch[1] : null;
+  const mentionSuggestions = mentionQuery === null
+    ? []
+    : mentionableMembers
+        .filter(member => member.displayName.toLowerCase().startsWith(mentionQuery.toLowerCase()))
+        .slice(0, 5);
+
+  // Swap the partial "@name" for the member's full name
+  const pickMention = (member: FirebaseChatMember): void => {
+    if (mentionQuery === null) return;
+    const start = selection.start - mentionQuery.length - 1;
+    const inserted = `@${member.displayName} `;
+    const text = inputText.slice(0, start) + inserted + inputText.slice(selection.start);
+    const cursor = start + inserted.length;
+    handleInputChange(text);
+    setSelection({ start: cursor, end: cursor });
+    setForcedSelection({ start: cursor, end: cursor });
+  };
+
+  // A live subscription failed; show what happened instead of an endless spinner
+  const handleSubscriptionError = (error: ServiceError): void => {
+    setLoadError(error);
+    setLoading(false);
+  };
+
+  const retryLoading = (): void => {
+    setLoadError(null);
+    setReloadKey(key => key + 1);
   };
 
   // Subscribe to real-time messages
@@ -102,13 +471,18 @@ export const ChatDetail: React.FC<{
     if (!authUser || !chat.id) return;
 
     setLoading(true);
+    setLoadError(null);
+    liveMessagesRef.current = [];
+    olderMessagesRef.current = [];
+    olderCursorRef.current = null;
+    setHasMoreOlder(false);
     
     if (chat.type === 'group') {
       const unsubscribe = ChatService.subscribeToGroupChatMessages(
         chat.id,
-        async (firebaseMessages: FirebaseChatMessage[]) => {
-          const convertedMessages = firebaseMessages.map(convertFirebaseGroupMessage);
-          setMessages(convertedMessages);
+        async (page: MessagePage<FirebaseChatMessage>) => {
+          const firebaseMessages = page.messages;
+          applyLiveMessages(firebaseMessages.map(convertFirebaseGroupMessage), page);
           
           // Mark messages as read if there are any messages
           if (firebaseMessages.length > 0) {
@@ -127,28 +501,38 @@ export const ChatDetail: React.FC<{
           setTimeout(() => {
             scrollToBottom(!loading); // No animation on initial load, animated for updates
           }, 200);
-        }
+        },
+        undefined,
+        handleSubscriptionError
       );
 
       return () => unsubscribe();
-    } else if (chat.type === 'request_dm') {
-      const unsubscribe = ChatService.subscribeToRequestDMMessages(
-        chat.id,
-        async (dmMessages: RequestDMMessage[]) => {
-          const convertedMessages = dmMessages.map(convertRequestDMMessage);
-          setMessages(convertedMessages);
-          setLoading(false);
-          
-          // Auto-scroll to bottom when messages are loaded/updated
-          setTimeout(() => {
-            scrollToBottom(!loading); // No animation on initial load, animated for updates
-          }, 200);
+    } else {
+      // Request DMs and direct chats share a message format
+      const handleDMPage = async (page: MessagePage<RequestDMMessage>) => {
+        const dmMessages = page.messages;
+        applyLiveMessages(dmMessages.map(convertRequestDMMessage), page);
+
+        // Move the read cursor forward as new messages arrive
+        if (dmMessages.length > 0) {
+          setLastMessageId(dmMessages[dmMessages.length - 1].id);
         }
-      );
+
+        setLoading(false);
+        
+        // Auto-scroll to bottom when messages are loaded/updated
+        setTimeout(() => {
+          scrollToBottom(!loading); // No animation on initial load, animated for updates
+        }, 200);
+      };
+
+      const unsubscribe = chat.type === 'direct'
+        ? ChatService.subscribeToDirectChatMessages(chat.id, handleDMPage, undefined, handleSubscriptionError)
+        : ChatService.subscribeToRequestDMMessages(chat.id, handleDMPage, undefined, handleSubscriptionError);
 
       return () => unsubscribe();
     }
-  }, [chat.id, chat.type, authUser]);
+  }, [chat.id, chat.type, authUser, reloadKey]);
   
   useEffect(() => {
     if (lastMessageId && authUser?.uid) {
@@ -165,37 +549,270 @@ export const ChatDetail: React.FC<{
     }
   }, [loading, chat.id]); // Trigger when chat changes or loading completes
 
+  const startEditing = (message: Message): void => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setInputText(message.text);
+    publishTyping('');
+  };
+
+  const cancelEditing = (): void => {
+    setEditingMessage(null);
+    setInputText('');
+  };
+
+  // Save changes to the message being edited
+  const handleSaveEdit = async (): Promise<void> => {
+    if (!editingMessage || !authUser || inputText.trim() === '') return;
+
+    setSendingMessage(true);
+
+    try {
+      const result = await ChatService.editGroupChatMessage(
+        chat.id,
+        editingMessage.id,
+        authUser.uid,
+        inputText.trim()
+      );
+
+      if (!result.ok) {
+        showServiceError('Could not edit message', result.error, handleSaveEdit);
+        return;
+      }
+
+      cancelEditing();
+    } finally {
+      setSendingMessage(false);
+    }
+  };
+
+  const handleDeleteMessage = (message: Message): void => {
+    if (!authUser) return;
+
+    Alert.alert('Delete message?', 'This message will be removed for everyone.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await ChatService.deleteGroupChatMessage(chat.id, message.id, authUser.uid);
+          if (!result.ok) {
+            showServiceError('Could not delete message', result.error);
+          } else if (editingMessage?.id === message.id) {
+            cancelEditing();
+          }
+        }
+      }
+    ]);
+  };
+
+  // Read-only project chats are frozen, reactions included
+  const canReact = !isReadOnly;
+  const canEdit = (message: Message): boolean => chat.type === 'group' && !isReadOnly && message.isCurrentUser;
+  const canDelete = (message: Message): boolean =>
+    chat.type === 'group' && !isReadOnly && (message.isCurrentUser || isModerator);
+  const canReply = chat.type === 'group' && !isReadOnly;
+
+  const toReplyRef = (message: Message): MessageReplyRef => ChatService.buildReplyRef({
+    id: message.id,
+    senderId: message.senderId,
+    senderName: message.sender,
+    text: message.text,
+    attachment: message.attachment,
+  });
+
+  const startReply = (parent: MessageReplyRef): void => {
+    if (editingMessage) cancelEditing();
+    setThreadParent(null);
+    setReplyingTo(parent);
+  };
+
+  // Replies to each loaded message, for the "N replies" link under it
+  const replyCounts: Record<string, number> = {};
+  messages.forEach(message => {
+    if (message.replyTo) {
+      replyCounts[message.replyTo.messageId] = (replyCounts[message.replyTo.messageId] || 0) + 1;
+    }
+  });
+
+  // Scroll a loaded message into view and flash it
+  const scrollToMessage = (messageId: string): void => {
+    const index = messages.findIndex(message => message.id === messageId);
+    if (index === -1) return;
+
+    flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    setHighlightedId(messageId);
+    setTimeout(() => setHighlightedId(current => (current === messageId ? null : current)), 2000);
+  };
+
+  // Scroll to the message a reply quotes, or open its thread if it isn't loaded
+  const jumpToMessage = (parent: MessageReplyRef): void => {
+    if (!messages.some(message => message.id === parent.messageId)) {
+      setThreadParent(parent);
+      return;
+    }
+    scrollToMessage(parent.messageId);
+  };
+
+  const myReactions = (message: Message): MessageReaction[] =>
+    MESSAGE_REACTIONS.filter(emoji => !!authUser && !!message.reactions?.[emoji]?.includes(authUser.uid));
+
+  const handleToggleReaction = async (message: Message, emoji: MessageReaction): Promise<void> => {
+    if (!authUser) return;
+
+    const reacted = !myReactions(message).includes(emoji);
+    const result = await ChatService.setMessageReaction(chat.type, chat.id, message.id, authUser.uid, emoji, reacted);
+    if (!result.ok) {
+      showServiceError('Could not update reaction', result.error, () => handleToggleReaction(message, emoji));
+    }
+  };
+
+  // Long-press actions: react, edit your own messages, delete your own (or anyone's as owner/admin)
+  const handleMessageLongPress = (message: Message): void => {
+    if (message.deleted || message.type === 'system') return;
+    if (!canReact && !canEdit(message) && !canDelete(message)) return;
+
+    setActionMessage(message);
+  };
+
+  // Run a change to the group's membership, reporting any error
+  const runMemberChange = async (title: string, change: () => Promise<Result<void>>): Promise<boolean> => {
+    const result = await change();
+    if (!result.ok) {
+      showServiceError(title, result.error, () => runMemberChange(title, change));
+    }
+    return result.ok;
+  };
+
+  const handleChangeRole = (member: FirebaseChatMember, role: 'admin' | 'member'): void => {
+    if (!authUser) return;
+    runMemberChange('Could not change role', () =>
+      ChatService.setGroupChatMemberRole(chat.id, authUser.uid, member.userId, role)
+    );
+  };
+
+  const handleTransferOwnership = (member: FirebaseChatMember): void => {
+    if (!authUser) return;
+    Alert.alert(
+      `Make ${member.displayName} the owner?`,
+      "They'll manage the project and its requests. You'll stay on as an admin.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Make owner',
+          onPress: () => runMemberChange('Could not transfer ownership', () =>
+            ChatService.transferGroupChatOwnership(chat.id, authUser.uid, member.userId)
+          ),
+        },
+      ]
+    );
+  };
+
+  const handleRemoveMember = (member: FirebaseChatMember): void => {
+    if (!authUser) return;
+    Alert.alert(
+      `Remove ${member.displayName}?`,
+      'They will leave this chat and the project team.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => runMemberChange('Could not remove member', () =>
+            ChatService.removeGroupChatMember(chat.id, authUser.uid, member.userId)
+          ),
+        },
+      ]
+    );
+  };
+
+  const handleChangeSetting = (setting: keyof FirebaseGroupChat['settings'], value: boolean): void => {
+    if (!authUser) return;
+    runMemberChange('Could not change chat settings', () =>
+      ChatService.updateGroupChatSettings(chat.id, authUser.uid, { [setting]: value })
+    );
+  };
+
+  const handleLeaveChat = (): void => {
+    if (!authUser) return;
+    if (currentUserRole === 'owner') {
+      Alert.alert('Choose a new owner first', 'Make another member the owner before you leave.');
+      return;
+    }
+
+    Alert.alert(
+      'Leave this chat?',
+      "You'll also leave the project team. You'd need to be invited or accepted again to rejoin.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            const left = await runMemberChange('Could not leave chat', () =>
+              ChatService.leaveGroupChat(chat.id, authUser.uid)
+            );
+            if (left) {
+              setShowMembers(false);
+              onBack();
+            }
+          },
+        },
+      ]
+    );
+  };
+
   // Handle sending a message
   const handleSendMessage = async (): Promise<void> => {
     if (inputText.trim() === '' || !authUser) return;
+
+    if (editingMessage) {
+      await handleSaveEdit();
+      return;
+    }
     
     setSendingMessage(true);
     
     try {
-      let success = false;
+      let result: Result<unknown>;
       
       if (chat.type === 'group') {
-        success = await ChatService.sendGroupChatMessage(
+        result = await ChatService.sendGroupChatMessage(
+          chat.id,
+          authUser.uid,
+          senderName,
+          inputText.trim(),
+          'text',
+          undefined,
+          {
+            replyTo: replyingTo ?? undefined,
+            mentions: ChatService.findMentions(inputText.trim(), mentionableMembers)
+          }
+        );
+      } else if (chat.type === 'direct') {
+        result = await ChatService.sendDirectChatMessage(
           chat.id,
           authUser.uid,
-          authUser.displayName || 'Anonymous',
+          senderName,
           inputText.trim()
         );
-      } else if (chat.type === 'request_dm') {
-        success = await ChatService.sendRequestDMMessage(
+      } else {
+        result = await ChatService.sendRequestDMMessage(
           chat.id,
           authUser.uid,
-          authUser.displayName || 'Anonymous',
+          senderName,
           inputText.trim()
         );
       }
 
-      if (!success) {
-        Alert.alert('Error', 'Failed to send message. Please try again.');
+      if (!result.ok) {
+        showServiceError('Message not sent', result.error, handleSendMessage);
         return;
       }
 
       setInputText('');
+      setReplyingTo(null);
+      publishTyping('');
       
       // Auto-scroll to bottom after sending a message
       setTimeout(() => {
@@ -205,25 +822,120 @@ export const ChatDetail: React.FC<{
       if (onMessageSent) {
         onMessageSent(chat.id, inputText);
       }
-    } catch (error) {
-      console.error('Error sending message:', error);
-      Alert.alert('Error', 'Failed to send message. Please try again.');
     } finally {
       setSendingMessage(false);
     }
   };
 
+  // Upload a picked file and send it, using any typed text as the caption
+  const sendAttachment = async (file: PickedAttachment): Promise<void> => {
+    if (!authUser) return;
+
+    if (file.size && file.size > MAX_ATTACHMENT_BYTES) {
+      Alert.alert('File too large', 'Attachments must be 20 MB or smaller.');
+      return;
+    }
+
+    setSendingMessage(true);
+    setUploadProgress(0);
+
+    try {
+      const result = await ChatService.sendGroupChatAttachment(
+        chat.id,
+        authUser.uid,
+        senderName,
+        file,
+        inputText.trim(),
+        setUploadProgress
+      );
+
+      if (!result.ok) {
+        showServiceError('Could not send attachment', result.error, () => sendAttachment(file));
+        return;
+      }
+
+      setInputText('');
+      publishTyping('');
+      setTimeout(() => {
+        scrollToBottom(true);
+      }, 150);
+    } finally {
+      setSendingMessage(false);
+      setUploadProgress(null);
+    }
+  };
+
+  const pickImage = async (): Promise<void> => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission Denied', 'Sorry, we need camera roll permissions!');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.8,
+    });
+    if (result.canceled || !result.assets || result.assets.length === 0) return;
+
+    const asset = result.assets[0];
+    await sendAttachment({
+      uri: asset.uri,
+      name: asset.fileName || `photo_${Date.now()}.jpg`,
+      size: asset.fileSize,
+      mimeType: asset.mimeType || 'image/jpeg',
+      width: asset.width,
+      height: asset.height,
+    });
+  };
+
+  const pickDocument = async (): Promise<void> => {
+    const result = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true });
+    if (result.canceled || !result.assets || result.assets.length === 0) return;
+
+    const asset = result.assets[0];
+    await sendAttachment({
+      uri: asset.uri,
+      name: asset.name,
+      size: asset.size,
+      mimeType: asset.mimeType,
+    });
+  };
+
+  const handleAttachPress = (): void => {
+    Alert.alert('Attach', undefined, [
+      { text: 'Photo', onPress: pickImage },
+      { text: 'Document', onPress: pickDocument },
+      { text: 'Cancel', style: 'cancel' }
+    ]);
+  };
+
   // Render a message bubble
   const renderMessage = ({ item }: { item: Message }): JSX.Element => {
     const isSystemMessage = item.type === 'system' || item.sender === 'System';
+    const reactedWith = item.deleted
+      ? []
+      : MESSAGE_REACTIONS.filter(emoji => (item.reactions?.[emoji]?.length ?? 0) > 0);
+
+    // Joins, departures and other chat events read as a centered note, not a bubble
+    if (isSystemMessage) {
+      return (
+        <View style={styles.systemNotice}>
+          <Text variant="bodySmall" style={styles.systemNoticeText}>{item.text}</Text>
+          <Text variant="labelSmall" style={styles.systemNoticeTime}>{item.timestamp}</Text>
+        </View>
+      );
+    }
     
     return (
-      <View 
+      <Pressable 
         style={[
           styles.messageContainer,
           item.isCurrentUser ? styles.userMessageContainer : styles.otherMessageContainer,
           isSystemMessage && styles.systemMessageContainer
         ]}
+        onLongPress={() => handleMessageLongPress(item)}
+        delayLongPress={300}
       >
         <Surface 
           style={[
@@ -232,28 +944,121 @@ export const ChatDetail: React.FC<{
               ? { backgroundColor: theme.colors.primary } 
               : isSystemMessage
                 ? { backgroundColor: 'rgba(0, 0, 0, 0.05)' }
-                : { backgroundColor: theme.colors.surfaceVariant }
+                : { backgroundColor: theme.colors.surfaceVariant },
+            highlightedId === item.id && { borderWidth: 2, borderColor: theme.colors.tertiary }
           ]}
           elevation={1}
         >
           {!item.isCurrentUser && !isSystemMessage && (
             <Text variant="labelSmall" style={styles.senderName}>{item.sender}</Text>
           )}
-          <Text 
-            style={[
-              styles.messageText,
-              item.isCurrentUser 
-                ? { color: theme.colors.onPrimary } 
-                : isSystemMessage
-                  ? { color: '#666', fontStyle: 'italic' }
-                  : { color: theme.colors.onSurfaceVariant }
-            ]}
-          >
-            {item.text}
-          </Text>
+          {item.replyTo && !item.deleted && (
+            <Pressable
+              onPress={() => item.replyTo && jumpToMessage(item.replyTo)}
+              style={[
+                styles.replyQuote,
+                { borderLeftColor: item.isCurrentUser ? theme.colors.onPrimary : theme.colors.primary }
+              ]}
+            >
+              <Text
+                variant="labelSmall"
+                style={[styles.senderName, item.isCurrentUser && { color: theme.colors.onPrimary }]}
+              >
+                {item.replyTo.senderName}
+              </Text>
+              <Text
+                variant="bodySmall"
+                numberOfLines={2}
+                style={{ color: item.isCurrentUser ? theme.colors.onPrimary : theme.colors.onSurfaceVariant }}
+              >
+                {messages.find(message => message.id === item.replyTo?.messageId)?.deleted
+                  ? 'Original message was deleted'
+                  : item.replyTo.text}
+              </Text>
+            </Pressable>
+          )}
+          {item.attachment && !item.deleted && (
+            <ChatAttachmentView
+              attachment={item.attachment}
+              textColor={item.isCurrentUser ? theme.colors.onPrimary : theme.colors.onSurfaceVariant}
+            />
+          )}
+          {(item.deleted || item.text !== '' || !item.attachment) && (
+            <Text 
+              style={[
+                styles.messageText,
+                item.isCurrentUser 
+                  ? { color: theme.colors.onPrimary } 
+                  : isSystemMessage
+                    ? { color: '#666', fontStyle: 'italic' }
+                    : { color: theme.colors.onSurfaceVariant },
+                item.attachment && !item.deleted && styles.attachmentCaption,
+                item.deleted && styles.deletedMessageText
+              ]}
+            >
+              {item.deleted
+                ? 'This message was deleted'
+                : splitMentions(item.text, item.mentions).map((part, index) =>
+                    part.userId ? (
+                      <Text
+                        key={index}
+                        style={[
+                          styles.mention,
+                          part.userId === authUser?.uid && {
+                            backgroundColor: theme.colors.tertiaryContainer,
+                            color: theme.colors.onTertiaryContainer
+                          }
+                        ]}
+                      >
+                        {part.text}
+                      </Text>
+                    ) : (
+                      part.text
+                    )
+                  )}
+            </Text>
+          )}
         </Surface>
-        <Text variant="labelSmall" style={styles.timestamp}>{item.timestamp}</Text>
-      </View>
+        {reactedWith.length > 0 && (
+          <View style={[styles.reactionRow, item.isCurrentUser && styles.userReactionRow]}>
+            {reactedWith.map(emoji => (
+              <Chip
+                key={emoji}
+                compact
+                selected={myReactions(item).includes(emoji)}
+                showSelectedCheck={false}
+                onPress={canReact ? () => handleToggleReaction(item, emoji) : undefined}
+                style={styles.reactionChip}
+                textStyle={styles.reactionChipText}
+              >
+                {emoji} {item.reactions?.[emoji]?.length}
+              </Chip>
+            ))}
+          </View>
+        )}
+        <Text variant="labelSmall" style={styles.timestamp}>
+          {item.timestamp}{item.edited && !item.deleted ? ' (edited)' : ''}
+        </Text>
+        {!!replyCounts[item.id] && (
+          <Pressable onPress={() => setThreadParent(toReplyRef(item))}>
+            <Text variant="labelSmall" style={[styles.threadLink, { color: theme.colors.primary }]}>
+              {replyCounts[item.id] === 1 ? '1 reply' : `${replyCounts[item.id]} replies`}
+            </Text>
+          </Pressable>
+        )}
+        {item.id === latestOwnMessage?.id && readReceipts.length > 0 && (
+          <Pressable onPress={() => setReceiptsExpanded(expanded => !expanded)}>
+            <Text variant="labelSmall" style={styles.readReceipt}>
+              {chat.type === 'group' ? `Seen by ${readReceipts.length}` : 'Seen'}
+            </Text>
+            {receiptsExpanded && readReceipts.map(receipt => (
+              <Text key={receipt.userId} variant="labelSmall" style={styles.readReceipt}>
+                {receipt.displayName} · {receipt.readAt.toDate().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </Text>
+            ))}
+          </Pressable>
+        )}
+      </Pressable>
     );
   };
 
@@ -278,23 +1083,44 @@ export const ChatDetail: React.FC<{
         <Appbar.Content 
           title={chat.name}
           subtitle={chat.type === 'request_dm' 
-            ? 'Temporary request chat' 
-            : `${chat.memberCount || 0} members`
+            ? `Temporary request chat · ${PresenceService.describe(chat.otherUserId ? presence[chat.otherUserId] : undefined)}`
+            : chat.type === 'direct'
+            ? PresenceService.describe(chat.otherUserId ? presence[chat.otherUserId] : undefined)
+            : `${groupChat?.memberIds.length ?? chat.memberCount ?? 0} members${onlineCount > 0 ? ` · ${onlineCount} online` : ''}`
           }
         />
-        <Appbar.Action icon="information" onPress={() => console.log('Info')} />
+        <Appbar.Action icon="magnify" onPress={() => setShowSearch(true)} />
+        {chat.type === 'group' && (
+          <Appbar.Action icon="account-group" onPress={() => setShowMembers(true)} />
+        )}
       </Appbar.Header>
 
       <ThemedView style={styles.container}>
         <Divider />
 
+        {/* Couldn't load messages */}
+        {loadError && (
+          <View style={styles.welcomeMessageContainer}>
+            <Text variant="bodyMedium" style={styles.welcomeMessage}>
+              Couldn't load messages. {loadError.message}
+            </Text>
+            {loadError.retryable && (
+              <Button compact onPress={retryLoading}>
+                Retry
+              </Button>
+            )}
+          </View>
+        )}
+
         {/* Welcome message for new chats */}
-        {messages.length === 0 && !loading && (
+        {messages.length === 0 && !loading && !loadError && (
           <View style={styles.welcomeMessageContainer}>
             <Text variant="bodyMedium" style={styles.welcomeMessage}>
               {chat.type === 'request_dm' 
                 ? 'This is a temporary chat for discussing the project request. It will close when the request is resolved.'
-                : `Welcome to the ${chat.name} project chat! Start the conversation.`
+                : chat.type === 'direct'
+                  ? `This is the start of your conversation with ${chat.name}.`
+                  : `Welcome to the ${chat.name} project chat! Start the conversation.`
               }
             </Text>
           </View>
@@ -304,15 +1130,39 @@ export const ChatDetail: React.FC<{
         <FlatList
           ref={flatListRef}
           data={messages}
+          extraData={{ readReceipts, receiptsExpanded, highlightedId }} // These change without the messages changing
           renderItem={renderMessage}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.messagesList}
           showsVerticalScrollIndicator={false}
           maintainVisibleContentPosition={{
-            minIndexForVisible: 0,
-            autoscrollToTopThreshold: 10
+            minIndexForVisible: 0
           }}
+          onScrollToIndexFailed={({ index, averageItemLength }) => {
+            // The original isn't laid out yet; get close, then try again
+            flatListRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+            setTimeout(() => {
+              flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+            }, 100);
+          }}
+          onStartReached={loadOlderMessages}
+          onStartReachedThreshold={0.1}
+          ListHeaderComponent={
+            loadingOlder ? (
+              <ActivityIndicator style={styles.olderMessagesIndicator} />
+            ) : hasMoreOlder ? (
+              <Button compact onPress={loadOlderMessages}>
+                Load older messages
+              </Button>
+            ) : null
+          }
           onContentSizeChange={() => {
+            // Older messages were prepended; keep the current scroll position
+            if (prependingRef.current) {
+              prependingRef.current = false;
+              return;
+            }
+
             // Auto-scroll when content size changes (new messages arrive)
             if (!loading) {
               setTimeout(() => {
@@ -330,34 +1180,162 @@ export const ChatDetail: React.FC<{
           }}
         />
         
+        {/* Typing indicator */}
+        {typingNames.length > 0 && (
+          <Text variant="labelMedium" style={styles.typingIndicator}>
+            {TypingService.describe(typingNames)}
+          </Text>
+        )}
+
+        {/* Reply banner */}
+        {replyingTo && (
+          <Surface style={styles.editingBanner} elevation={0}>
+            <View style={styles.replyBannerText}>
+              <Text variant="labelMedium" style={styles.editingBannerText}>
+                Replying to {replyingTo.senderName}
+              </Text>
+              <Text variant="bodySmall" numberOfLines={1} style={styles.editingBannerText}>
+                {replyingTo.text}
+              </Text>
+            </View>
+            <Button compact onPress={() => setReplyingTo(null)}>
+              Cancel
+            </Button>
+          </Surface>
+        )}
+
+        {/* Editing banner */}
+        {editingMessage && (
+          <Surface style={styles.editingBanner} elevation={0}>
+            <Text variant="labelMedium" style={styles.editingBannerText}>
+              Editing message
+            </Text>
+            <Button compact onPress={cancelEditing}>
+              Cancel
+            </Button>
+          </Surface>
+        )}
+
+        {/* Upload progress */}
+        {uploadProgress !== null && (
+          <ProgressBar progress={uploadProgress} style={styles.uploadProgress} />
+        )}
+
+        {/* Members matching the "@name" being typed */}
+        {!isReadOnly && mentionSuggestions.length > 0 && (
+          <Surface style={styles.mentionSuggestions} elevation={2}>
+            {mentionSuggestions.map(member => (
+              <List.Item
+                key={member.userId}
+                title={member.displayName}
+                onPress={() => pickMention(member)}
+                left={(props) => <List.Icon {...props} icon="at" />}
+                style={styles.mentionSuggestion}
+              />
+            ))}
+          </Surface>
+        )}
+
         {/* Input Area */}
-        <Surface style={styles.inputContainer} elevation={1}>
-          <TextInput
-            mode="outlined"
-            style={styles.input}
-            value={inputText}
-            onChangeText={setInputText}
-            placeholder="New message..."
-            outlineStyle={styles.inputOutline}
-            disabled={sendingMessage}
-            onFocus={() => {
-              // Scroll to bottom when user focuses input
-              setTimeout(() => {
-                scrollToBottom(true);
-              }, 300); // Slight delay to account for keyboard animation
-            }}
-          />
-          <Button 
-            mode="contained" 
-            onPress={handleSendMessage}
-            disabled={inputText.trim() === '' || sendingMessage}
-            loading={sendingMessage}
-            style={styles.sendButton}
-          >
-            Send
-          </Button>
-        </Surface>
+        {isReadOnly ? (
+          <Surface style={styles.inputContainer} elevation={1}>
+            <Text variant="bodyMedium" style={styles.readOnlyNotice}>
+              {chat.type === 'request_dm'
+                ? 'This request has been resolved. The chat is closed.'
+                : 'This project has ended. The chat is read-only.'}
+            </Text>
+          </Surface>
+        ) : (
+          <Surface style={styles.inputContainer} elevation={1}>
+            {chat.type === 'group' && !editingMessage && (
+              <IconButton
+                icon="paperclip"
+                onPress={handleAttachPress}
+                disabled={sendingMessage}
+                style={styles.attachButton}
+              />
+            )}
+            <TextInput
+              mode="outlined"
+              style={styles.input}
+              value={inputText}
+              onChangeText={handleInputChange}
+              selection={forcedSelection}
+              onSelectionChange={(event) => {
+                setSelection(event.nativeEvent.selection);
+                setForcedSelection(undefined);
+              }}
+              placeholder="New message..."
+              outlineStyle={styles.inputOutline}
+              disabled={sendingMessage}
+              onFocus={() => {
+                // Scroll to bottom when user focuses input
+                setTimeout(() => {
+                  scrollToBottom(true);
+                }, 300); // Slight delay to account for keyboard animation
+              }}
+            />
+            <Button 
+              mode="contained" 
+              onPress={handleSendMessage}
+              disabled={inputText.trim() === '' || sendingMessage}
+              loading={sendingMessage}
+              style={styles.sendButton}
+            >
+              {editingMessage ? 'Save' : 'Send'}
+            </Button>
+          </Surface>
+        )}
       </ThemedView>
+
+      {groupChat && (
+        <ChatMembersDialog
+          visible={showMembers}
+          onDismiss={() => setShowMembers(false)}
+          members={groupChat.members}
+          presence={presence}
+          currentUserId={authUser?.uid}
+          onMessage={(member) => {
+            if (!authUser) return;
+            setShowMembers(false);
+            startDirectChat(authUser.uid, member);
+          }}
+          onChangeRole={handleChangeRole}
+          onTransferOwnership={handleTransferOwnership}
+          onRemove={handleRemoveMember}
+          onLeave={handleLeaveChat}
+          settings={groupChat.settings}
+          onChangeSetting={handleChangeSetting}
+        />
+      )}
+
+      <MessageSearchDialog
+        visible={showSearch}
+        onDismiss={() => setShowSearch(false)}
+        chat={{ threadType: chat.type, chatId: chat.id, chatName: chat.name }}
+        onSelect={hit => jumpToMessageId(hit.messageId)}
+      />
+
+      {chat.type === 'group' && (
+        <MessageThreadDialog
+          chatId={chat.id}
+          parent={threadParent}
+          onDismiss={() => setThreadParent(null)}
+          onReply={canReply ? startReply : undefined}
+        />
+      )}
+
+      {actionMessage && (
+        <MessageActionsDialog
+          visible
+          onDismiss={() => setActionMessage(null)}
+          myReactions={myReactions(actionMessage)}
+          onReact={canReact ? (emoji) => handleToggleReaction(actionMessage, emoji) : undefined}
+          onReply={canReply ? () => startReply(toReplyRef(actionMessage)) : undefined}
+          onEdit={canEdit(actionMessage) ? () => startEditing(actionMessage) : undefined}
+          onDelete={canDelete(actionMessage) ? () => handleDeleteMessage(actionMessage) : undefined}
+        />
+      )}
     </KeyboardAvoidingView>
   );
 };
@@ -387,6 +1365,21 @@ const styles = StyleSheet.create({
     alignSelf: 'center',
     maxWidth: '90%',
   },
+  systemNotice: {
+    alignSelf: 'center',
+    alignItems: 'center',
+    maxWidth: '90%',
+    marginVertical: 8,
+  },
+  systemNoticeText: {
+    color: '#666',
+    fontStyle: 'italic',
+    textAlign: 'center',
+  },
+  systemNoticeTime: {
+    fontSize: 10,
+    color: '#888',
+  },
   messageBubble: {
     borderRadius: 18,
     padding: 12,
@@ -398,12 +1391,81 @@ const styles = StyleSheet.create({
   messageText: {
     fontSize: 16,
   },
+  attachmentCaption: {
+    marginTop: 6,
+  },
+  deletedMessageText: {
+    fontStyle: 'italic',
+    opacity: 0.7,
+  },
+  editingBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5E5',
+  },
+  editingBannerText: {
+    color: '#666',
+  },
+  typingIndicator: {
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    color: '#666',
+    fontStyle: 'italic',
+  },
   timestamp: {
     fontSize: 10,
     marginTop: 2,
     alignSelf: 'flex-end',
     color: '#888',
   },
+  mention: {
+    fontWeight: 'bold',
+  },
+  mentionSuggestions: {
+    marginHorizontal: 8,
+    borderRadius: 8,
+  },
+  mentionSuggestion: {
+    paddingVertical: 0,
+  },
+  replyQuote: {
+    borderLeftWidth: 3,
+    paddingLeft: 8,
+    marginBottom: 6,
+    opacity: 0.85,
+  },
+  replyBannerText: {
+    flex: 1,
+  },
+  threadLink: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  reactionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginTop: 4,
+  },
+  userReactionRow: {
+    justifyContent: 'flex-end',
+  },
+  reactionChip: {
+    height: 28,
+  },
+  reactionChipText: {
+    fontSize: 12,
+    marginVertical: 0,
+  },
+  readReceipt: {
+    fontSize: 10,
+    alignSelf: 'flex-end',
+    color: '#888',
+  },
   inputContainer: {
     flexDirection: 'row',
     padding: 8,
@@ -419,11 +1481,28 @@ const styles = StyleSheet.create({
   inputOutline: {
     borderRadius: 20,
   },
+  attachButton: {
+    alignSelf: 'center',
+    margin: 0,
+  },
+  uploadProgress: {
+    height: 2,
+  },
   sendButton: {
     justifyContent: 'center',
     borderRadius: 20,
     alignSelf: 'center',
   },
+  olderMessagesIndicator: {
+    marginVertical: 8,
+  },
+  readOnlyNotice: {
+    flex: 1,
+    textAlign: 'center',
+    color: '#666',
+    fontStyle: 'italic',
+    paddingVertical: 8,
+  },
   welcomeMessageContainer: {
     padding: 16,
     alignItems: 'center',
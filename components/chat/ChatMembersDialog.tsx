@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, View } from 'react-native';
+import { Avatar, Button, Dialog, Divider, IconButton, List, Menu, Portal, Switch, useTheme } from 'react-native-paper';
+import { router } from 'expo-router';
+import { FirebaseChatMember, FirebaseGroupChat } from '@/services/chatService';
+import { PresenceService, UserPresence } from '@/services/presenceService';
+
+const ROLE_LABELS: Record<FirebaseChatMember['role'], string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+const ROLE_ORDER: FirebaseChatMember['role'][] = ['owner', 'admin', 'member'];
+
+interface ChatMembersDialogProps {
+  visible: boolean;
+  onDismiss: () => void;
+  members: Record<string, FirebaseChatMember>;
+  presence: Record<string, UserPresence>;
+  currentUserId?: string;
+  onMessage?: (member: FirebaseChatMember) => void; // Start a direct chat with a member
+  onChangeRole?: (member: FirebaseChatMember, role: 'admin' | 'member') => void;
+  onTransferOwnership?: (member: FirebaseChatMember) => void;
+  onRemove?: (member: FirebaseChatMember) => void;
+  onLeave?: () => void;
+  settings?: FirebaseGroupChat['settings'];
+  onChangeSetting?: (setting: keyof FirebaseGroupChat['settings'], value: boolean) => void;
+}
+
+// Group chat members with their role and whether they're online. Owners can
+// change roles, hand over ownership and remove people; admins can remove members
+// and, with owners, change the chat's settings.
+export function ChatMembersDialog({
+  visible,
+  onDismiss,
+  members,
+  presence,
+  currentUserId,
+  onMessage,
+  onChangeRole,
+  onTransferOwnership,
+  onRemove,
+  onLeave,
+  settings,
+  onChangeSetting,
+}: ChatMembersDialogProps): JSX.Element {
+  const { colors } = useTheme();
+  const [menuFor, setMenuFor] = useState<string | null>(null);
+
+  const currentRole = currentUserId ? members[currentUserId]?.role : undefined;
+
+  const canManage = (member: FirebaseChatMember): boolean =>
+    member.userId !== currentUserId &&
+    (currentRole === 'owner' || (currentRole === 'admin' && member.role === 'member'));
+
+  // Close the menu before acting so it doesn't linger over any confirmation
+  const act = (action: () => void) => () => {
+    setMenuFor(null);
+    action();
+  };
+
+  // Owner first, then admins, then online members, then by name
+  const sortedMembers = Object.values(members).sort((a, b) =>
+    ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role) ||
+    Number(!!presence[b.userId]?.online) - Number(!!presence[a.userId]?.online) ||
+    a.displayName.localeCompare(b.displayName)
+  );
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss} style={styles.dialog}>
+        <Dialog.Title>Members</Dialog.Title>
+        <Dialog.ScrollArea>
+          <ScrollView>
+            {sortedMembers.map(member => (
+              <List.Item
+                key={member.userId}
+                title={member.displayName}
+                description={`${ROLE_LABELS[member.role]} · ${PresenceService.describe(presence[member.userId])}`}
+                onPress={() => {
+                  onDismiss();
+                  router.push({ pathname: '/users/[uid]', params: { uid: member.userId } });
+                }}
+                left={() => (
+                  <Avatar.Text
+                    size={36}
+                    label={member.displayName.split(' ').map(word => word[0]).join('').slice(0, 2)}
+                    style={{ backgroundColor: `hsl(${parseInt(member.userId, 36) % 360}, 70%, 60%)` }}
+                  />
+                )}
+                right={() => (
+                  <View style={styles.actions}>
+                    {onMessage && member.userId !== currentUserId && (
+                      <IconButton icon="message-outline" size={20} onPress={() => onMessage(member)} />
+                    )}
+                    {canManage(member) && (
+                      <Menu
+                        visible={menuFor === member.userId}
+                        onDismiss={() => setMenuFor(null)}
+                        anchor={<IconButton icon="dots-vertical" size={20} onPress={() => setMenuFor(member.userId)} />}
+                      >
+                        {currentRole === 'owner' && onChangeRole && (
+                          member.role === 'admin' ? (
+                            <Menu.Item title="Remove as admin" onPress={act(() => onChangeRole(member, 'member'))} />
+                          ) : (
+                            <Menu.Item title="Make admin" onPress={act(() => onChangeRole(member, 'admin'))} />
+                          )
+                        )}
+                        {currentRole === 'owner' && onTransferOwnership && (
+                          <Menu.Item title="Make owner" onPress={act(() => onTransferOwnership(member))} />
+                        )}
+                        {onRemove && (
+                          <Menu.Item title="Remove from chat" onPress={act(() => onRemove(member))} />
+                        )}
+                      </Menu>
+                    )}
+                    <List.Icon
+                      icon="circle"
+                      color={presence[member.userId]?.online ? colors.primary : colors.onSurfaceDisabled}
+                    />
+                  </View>
+                )}
+              />
+            ))}
+            {settings && onChangeSetting && (currentRole === 'owner' || currentRole === 'admin') && (
+              <>
+                <Divider />
+                <List.Item
+                  title="Allow invites"
+                  description="The project owner can invite people to join"
+                  right={() => (
+                    <Switch
+                      value={settings.allowInvites}
+                      onValueChange={value => onChangeSetting('allowInvites', value)}
+                    />
+                  )}
+                />
+              </>
+            )}
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          {onLeave && currentRole && (
+            <Button textColor={colors.error} onPress={onLeave}>Leave chat</Button>
+          )}
+          <Button onPress={onDismiss}>Close</Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  dialog: {
+    maxHeight: '80%',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+});
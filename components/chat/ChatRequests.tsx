@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { StyleSheet, FlatList, View, Alert, ActivityIndicator } from 'react-native';
+import { StyleSheet, FlatList, View, Alert, ActivityIndicator, TouchableOpacity } from 'react-native';
+import { router } from 'expo-router';
 import {
   Button,
   Surface,
@@ -11,9 +12,23 @@ import {
   Chip,
   IconButton,
   Card,
+  Dialog,
+  Portal,
+  SegmentedButtons,
+  TextInput,
 } from 'react-native-paper';
 import { ThemedView } from '@/components/ThemedView';
-import { ChatService, ProjectRequest, RequestItem } from '../../services/chatService';
+import { RequestHistory } from './RequestHistory';
+import {
+  ChatService,
+  DeclineOptions,
+  ProjectRequest,
+  RequestDecisionResult,
+  RequestItem,
+} from '../../services/chatService';
+import { PROJECT_STATUS_LABELS } from '../../services/projectService';
+import { ServiceError } from '../../services/serviceResult';
+import { showServiceError } from '@/components/showServiceError';
 
 interface ProjectRequestsProps {
   onBack: () => void;
@@ -22,6 +37,39 @@ interface ProjectRequestsProps {
   currentUserId: string;
 }
 
+// Explain why an accept or decline didn't go through
+const describeDecisionFailure = (result: RequestDecisionResult): string => {
+  switch (result.outcome) {
+    case 'already_resolved':
+      return `This request was already ${result.status}.`;
+    case 'not_found':
+      return 'This request no longer exists.';
+    case 'project_full':
+      return 'Your team is full. Raise the team size or remove a member to accept more people.';
+    case 'project_closed':
+      return result.projectStatus
+        ? `This project is ${PROJECT_STATUS_LABELS[result.projectStatus].toLowerCase()} and no longer accepting members.`
+        : 'This project no longer exists.';
+    case 'failed':
+      return result.error.message;
+    default:
+      return 'Failed to process request. Please try again.';
+  }
+};
+
+// Show why a decision failed, offering a retry for temporary failures
+const alertDecisionFailure = (
+  title: string,
+  result: RequestDecisionResult,
+  onRetry: () => void
+): void => {
+  if (result.outcome === 'failed') {
+    showServiceError(title, result.error, onRetry);
+  } else {
+    Alert.alert(title, describeDecisionFailure(result));
+  }
+};
+
 export function ProjectRequests({ 
   onBack, 
   onAcceptRequest, 
@@ -31,6 +79,12 @@ export function ProjectRequests({
   const [requests, setRequests] = useState<RequestItem[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [processingRequests, setProcessingRequests] = useState<Set<string>>(new Set());
+  const [loadError, setLoadError] = useState<ServiceError | null>(null);
+  const [reloadKey, setReloadKey] = useState<number>(0); // Bumped to resubscribe after an error
+  const [tab, setTab] = useState<'pending' | 'history'>('pending');
+  const [declineTarget, setDeclineTarget] = useState<RequestItem | null>(null);
+  const [declineReason, setDeclineReason] = useState<string>('');
+  const [declineNote, setDeclineNote] = useState<string>('');
   const theme = useTheme();
   
   const unsubscribeRef = useRef<(() => void) | null>(null);
@@ -39,6 +93,7 @@ export function ProjectRequests({
   useEffect(() => {
     const loadRequests = () => {
       setLoading(true);
+      setLoadError(null);
 
       console.log('Loading requests for user:', currentUserId);
       
@@ -50,6 +105,10 @@ export function ProjectRequests({
           const requestItems = ChatService.convertProjectRequestsToRequestItems(firebaseRequests);
           setRequests(requestItems);
           setLoading(false);
+        },
+        (error) => {
+          setLoadError(error);
+          setLoading(false);
         }
       );
 
@@ -66,7 +125,7 @@ export function ProjectRequests({
         unsubscribeRef.current();
       }
     };
-  }, [currentUserId]);
+  }, [currentUserId, reloadKey]);
 
   // Handle accepting a request
   const handleAcceptRequest = async (request: RequestItem): Promise<void> => {
@@ -74,15 +133,20 @@ export function ProjectRequests({
     setProcessingRequests(prev => new Set(prev).add(request.id));
 
     try {
-      const success = await ChatService.acceptProjectRequest(request.id);
+      const result = await ChatService.acceptProjectRequest(request.id);
       
-      if (success) {
+      if (result.outcome === 'accepted') {
         // Call the parent's callback for any additional UI updates
         onAcceptRequest(request);
         
-        Alert.alert('Success', 'User added to project group chat!');
+        Alert.alert(
+          'Success',
+          result.projectStatus === 'full'
+            ? 'User added to project group chat! Your team is now full.'
+            : 'User added to project group chat!'
+        );
       } else {
-        Alert.alert('Error', 'Failed to process request. Please try again.');
+        alertDecisionFailure('Could not accept request', result, () => handleAcceptRequest(request));
       }
     } catch (error) {
       console.error('Error accepting request:', error);
@@ -104,26 +168,30 @@ export function ProjectRequests({
 
     try {
       // Get the project owner's details
-      const ownerDetails = await ChatService.getProjectOwnerDetails(currentUserId, request.project);
+      const ownerDetails = await ChatService.getProjectOwnerDetails(currentUserId, request.projectId);
+      if (!ownerDetails.ok) {
+        showServiceError('Could not start chat', ownerDetails.error, () => handleStartDM(request));
+        return;
+      }
       
-      const dmId = await ChatService.createRequestDM(
+      const dmResult = await ChatService.createRequestDM(
         request.id, // requestId
         request.fromUserId, // requesterId
         request.name, // requesterName
         '', // requesterEmail (we don't have this, but it's not critical)
         currentUserId, // ownerId
-        ownerDetails?.displayName || 'Project Owner', // ownerName
-        ownerDetails?.email || '', // ownerEmail
-        request.project.toLowerCase().replace(/\s+/g, '-'), // projectId
+        ownerDetails.value.displayName, // ownerName
+        ownerDetails.value.email, // ownerEmail
+        request.projectId, // projectId
         request.project // projectName
       );
 
-      if (dmId) {
+      if (dmResult.ok) {
         // Call the parent's callback to navigate to the DM
         onStartDM(request);
         Alert.alert('Success', 'Temporary chat started! You can now discuss the request privately.');
       } else {
-        Alert.alert('Error', 'Failed to start chat. Please try again.');
+        showServiceError('Could not start chat', dmResult.error, () => handleStartDM(request));
       }
     } catch (error) {
       console.error('Error starting DM:', error);
@@ -137,17 +205,29 @@ export function ProjectRequests({
       });
     }
   };
-  const handleDeclineRequest = async (requestId: string): Promise<void> => {
+  // Ask for an optional reason and private note before declining
+  const openDeclineDialog = (request: RequestItem): void => {
+    setDeclineReason('');
+    setDeclineNote('');
+    setDeclineTarget(request);
+  };
+
+  const handleDeclineRequest = async (requestId: string, options: DeclineOptions = {}): Promise<void> => {
     // Add to processing set to show loading state
     setProcessingRequests(prev => new Set(prev).add(requestId));
 
     try {
-      const success = await ChatService.declineProjectRequest(requestId);
+      const result = await ChatService.declineProjectRequest(requestId, options);
       
-      if (success) {
-        Alert.alert('Request Declined', 'The request has been declined.');
+      if (result.outcome === 'declined') {
+        Alert.alert(
+          'Request Declined',
+          options.reason?.trim()
+            ? 'The request has been declined and your reason was shared.'
+            : 'The request has been declined.'
+        );
       } else {
-        Alert.alert('Error', 'Failed to decline request. Please try again.');
+        alertDecisionFailure('Could not decline request', result, () => handleDeclineRequest(requestId, options));
       }
     } catch (error) {
       console.error('Error declining request:', error);
@@ -170,7 +250,10 @@ export function ProjectRequests({
       <Card style={styles.requestCard}>
         <Card.Content>
           <View style={styles.requestHeader}>
-            <View style={styles.userInfo}>
+            <TouchableOpacity
+              style={styles.userInfo}
+              onPress={() => router.push({ pathname: '/users/[uid]', params: { uid: item.fromUserId } })}
+            >
               <Avatar.Text
                 size={40}
                 label={item.name.split(' ').map(word => word[0]).join('').slice(0, 2)}
@@ -186,7 +269,7 @@ export function ProjectRequests({
                   wants to join your project
                 </Text>
               </View>
-            </View>
+            </TouchableOpacity>
             
             {/* <Chip
               style={[styles.typeChip, { backgroundColor: '#2196F3' }]}
@@ -258,7 +341,7 @@ export function ProjectRequests({
             
             <Button
               mode="outlined"
-              onPress={() => handleDeclineRequest(item.id)}
+              onPress={() => openDeclineDialog(item)}
               disabled={isProcessing}
               style={[styles.declineButton, item.hasDM && styles.declineButtonWide]}
             >
@@ -313,8 +396,34 @@ export function ProjectRequests({
 
       <Divider />
 
+      <SegmentedButtons
+        value={tab}
+        onValueChange={(value) => setTab(value as 'pending' | 'history')}
+        buttons={[
+          { value: 'pending', label: 'Pending' },
+          { value: 'history', label: 'History' },
+        ]}
+        style={styles.tabs}
+      />
+
       {/* Requests list */}
-      {requests.length === 0 ? (
+      {tab === 'history' ? (
+        <RequestHistory currentUserId={currentUserId} />
+      ) : loadError ? (
+        <View style={[styles.container, styles.centered]}>
+          <Text variant="bodyLarge" style={styles.emptyText}>
+            Couldn't load requests
+          </Text>
+          <Text variant="bodyMedium" style={styles.emptySubtext}>
+            {loadError.message}
+          </Text>
+          {loadError.retryable && (
+            <Button mode="outlined" onPress={() => setReloadKey(key => key + 1)} style={styles.retryButton}>
+              Retry
+            </Button>
+          )}
+        </View>
+      ) : requests.length === 0 ? (
         <View style={[styles.container, styles.centered]}>
           <Text variant="bodyLarge" style={styles.emptyText}>
             No pending requests
@@ -333,6 +442,41 @@ export function ProjectRequests({
           ItemSeparatorComponent={() => <View style={styles.separator} />}
         />
       )}
+
+      <Portal>
+        <Dialog visible={!!declineTarget} onDismiss={() => setDeclineTarget(null)}>
+          <Dialog.Title>Decline request?</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              mode="outlined"
+              label="Reason (shared with the requester)"
+              multiline
+              value={declineReason}
+              onChangeText={setDeclineReason}
+              style={styles.dialogInput}
+            />
+            <TextInput
+              mode="outlined"
+              label="Private note (only you)"
+              multiline
+              value={declineNote}
+              onChangeText={setDeclineNote}
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setDeclineTarget(null)}>Cancel</Button>
+            <Button
+              onPress={() => {
+                if (!declineTarget) return;
+                handleDeclineRequest(declineTarget.id, { reason: declineReason, privateNote: declineNote });
+                setDeclineTarget(null);
+              }}
+            >
+              Decline
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
     </ThemedView>
   );
 }
@@ -358,6 +502,13 @@ const styles = StyleSheet.create({
   headerSpacer: {
     flex: 1,
   },
+  tabs: {
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  dialogInput: {
+    marginBottom: 12,
+  },
   requestsList: {
     flex: 1,
   },
@@ -464,6 +615,9 @@ const styles = StyleSheet.create({
   separator: {
     height: 8,
   },
+  retryButton: {
+    marginTop: 16,
+  },
   loadingText: {
     marginTop: 16,
     color: '#666',
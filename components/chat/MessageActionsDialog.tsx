@@ -0,0 +1,79 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Button, Dialog, Portal, Text, TouchableRipple, useTheme } from 'react-native-paper';
+import { MESSAGE_REACTIONS, MessageReaction } from '@/services/chatService';
+
+interface MessageActionsDialogProps {
+  visible: boolean;
+  onDismiss: () => void;
+  myReactions: MessageReaction[]; // Emoji the current user already reacted with
+  onReact?: (emoji: MessageReaction) => void; // Toggle a reaction; omit where reactions aren't allowed
+  onReply?: () => void;
+  onEdit?: () => void;
+  onDelete?: () => void;
+}
+
+// Long-press menu for a chat message: react with an emoji, or reply, edit and delete where allowed
+export function MessageActionsDialog({
+  visible,
+  onDismiss,
+  myReactions,
+  onReact,
+  onReply,
+  onEdit,
+  onDelete,
+}: MessageActionsDialogProps): JSX.Element {
+  const { colors } = useTheme();
+
+  // Close first so the dialog doesn't linger over any confirmation
+  const act = (action: () => void) => () => {
+    onDismiss();
+    action();
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Content>
+          {onReact && (
+            <View style={styles.reactions}>
+              {MESSAGE_REACTIONS.map(emoji => (
+                <TouchableRipple
+                  key={emoji}
+                  onPress={act(() => onReact(emoji))}
+                  style={[
+                    styles.reaction,
+                    myReactions.includes(emoji) && { backgroundColor: colors.secondaryContainer },
+                  ]}
+                  borderless
+                >
+                  <Text style={styles.emoji}>{emoji}</Text>
+                </TouchableRipple>
+              ))}
+            </View>
+          )}
+        </Dialog.Content>
+        <Dialog.Actions>
+          {onReply && <Button onPress={act(onReply)}>Reply</Button>}
+          {onEdit && <Button onPress={act(onEdit)}>Edit</Button>}
+          {onDelete && <Button textColor={colors.error} onPress={act(onDelete)}>Delete</Button>}
+          <Button onPress={onDismiss}>Cancel</Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  reactions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  reaction: {
+    borderRadius: 20,
+    padding: 6,
+  },
+  emoji: {
+    fontSize: 24,
+  },
+});
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet } from 'react-native';
+import { Button, Dialog, Portal, Searchbar } from 'react-native-paper';
+import { ChatService, MessageSearchHit, SearchableChat } from '@/services/chatService';
+import { MessageSearchResults } from './MessageSearchResults';
+
+interface MessageSearchDialogProps {
+  visible: boolean;
+  onDismiss: () => void;
+  chat: SearchableChat;
+  onSelect: (hit: MessageSearchHit) => void; // Jump to a found message
+}
+
+// Search the messages of the open chat
+export function MessageSearchDialog({ visible, onDismiss, chat, onSelect }: MessageSearchDialogProps): JSX.Element {
+  const [queryText, setQueryText] = useState('');
+  const [hits, setHits] = useState<MessageSearchHit[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start over when the dialog opens on another chat
+  useEffect(() => {
+    setQueryText('');
+    setHits(null);
+    setError(null);
+  }, [chat.chatId]);
+
+  const search = async () => {
+    setSearching(true);
+    setError(null);
+    try {
+      const result = await ChatService.searchChatMessages(chat, queryText);
+      if (result.ok) {
+        setHits(result.value);
+      } else {
+        setHits(null);
+        setError(result.error.message);
+      }
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss} style={styles.dialog}>
+        <Dialog.Title>Search this chat</Dialog.Title>
+        <Dialog.Content>
+          <Searchbar
+            placeholder="Search messages"
+            value={queryText}
+            onChangeText={setQueryText}
+            onSubmitEditing={search}
+            onIconPress={search}
+            autoFocus
+          />
+        </Dialog.Content>
+        <Dialog.ScrollArea>
+          <ScrollView>
+            <MessageSearchResults
+              hits={hits}
+              searching={searching}
+              error={error}
+              showChatName={false}
+              onSelect={(hit) => {
+                onDismiss();
+                onSelect(hit);
+              }}
+            />
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={onDismiss}>Close</Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  dialog: {
+    maxHeight: '80%',
+  },
+});
@@ -0,0 +1,77 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { ActivityIndicator, Divider, List, Text } from 'react-native-paper';
+import { MessageSearchHit } from '@/services/chatService';
+
+interface MessageSearchResultsProps {
+  hits: MessageSearchHit[] | null; // Null until the first search runs
+  searching: boolean;
+  error?: string | null;
+  showChatName?: boolean; // Off when every hit comes from the same chat
+  onSelect: (hit: MessageSearchHit) => void;
+}
+
+const formatHitTime = (hit: MessageSearchHit): string => {
+  const date = hit.timestamp.toDate();
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+// Messages found by a search: where, who, when, and the matching snippet
+export function MessageSearchResults({
+  hits,
+  searching,
+  error,
+  showChatName = true,
+  onSelect,
+}: MessageSearchResultsProps): JSX.Element | null {
+  if (searching) {
+    return <ActivityIndicator style={styles.status} />;
+  }
+
+  if (error) {
+    return <Text style={styles.emptyText}>{error}</Text>;
+  }
+
+  if (!hits) {
+    return null;
+  }
+
+  if (hits.length === 0) {
+    return <Text style={styles.emptyText}>No messages match. Try fewer or shorter words.</Text>;
+  }
+
+  return (
+    <View>
+      {hits.map((hit, index) => (
+        <React.Fragment key={`${hit.chatId}/${hit.messageId}`}>
+          {index > 0 && <Divider />}
+          <List.Item
+            title={showChatName ? `${hit.chatName} · ${hit.senderName}` : hit.senderName}
+            description={hit.snippet}
+            descriptionNumberOfLines={3}
+            onPress={() => onSelect(hit)}
+            right={() => <Text variant="labelSmall" style={styles.time}>{formatHitTime(hit)}</Text>}
+          />
+        </React.Fragment>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  status: {
+    marginVertical: 16,
+  },
+  emptyText: {
+    color: '#666',
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  time: {
+    color: '#888',
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
+});
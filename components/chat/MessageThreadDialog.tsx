@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, View } from 'react-native';
+import { Button, Dialog, Divider, Portal, Text, useTheme } from 'react-native-paper';
+import { ChatService, FirebaseChatMessage, MessageReplyRef } from '@/services/chatService';
+import { ServiceError } from '@/services/serviceResult';
+
+interface MessageThreadDialogProps {
+  chatId: string;
+  parent: MessageReplyRef | null; // Message whose thread is open; null hides the dialog
+  onDismiss: () => void;
+  onReply?: (parent: MessageReplyRef) => void; // Answer the parent from the thread
+}
+
+// Every reply to one group chat message, under a quote of the message itself
+export function MessageThreadDialog({ chatId, parent, onDismiss, onReply }: MessageThreadDialogProps): JSX.Element {
+  const { colors } = useTheme();
+  const [replies, setReplies] = useState<FirebaseChatMessage[]>([]);
+  const [loadError, setLoadError] = useState<ServiceError | null>(null);
+
+  const parentId = parent?.messageId;
+  useEffect(() => {
+    if (!parentId) return;
+    setReplies([]);
+    setLoadError(null);
+    const unsubscribe = ChatService.subscribeToMessageReplies(chatId, parentId, setReplies, setLoadError);
+    return () => unsubscribe();
+  }, [chatId, parentId]);
+
+  return (
+    <Portal>
+      <Dialog visible={!!parent} onDismiss={onDismiss} style={styles.dialog}>
+        <Dialog.Title>Thread</Dialog.Title>
+        {parent && (
+          <View style={[styles.parent, { borderLeftColor: colors.primary }]}>
+            <Text variant="labelMedium" style={styles.senderName}>{parent.senderName}</Text>
+            <Text variant="bodyMedium">{parent.text}</Text>
+          </View>
+        )}
+        <Divider />
+        <Dialog.ScrollArea>
+          <ScrollView>
+            {loadError && <Text style={styles.emptyText}>{loadError.message}</Text>}
+            {!loadError && replies.length === 0 && <Text style={styles.emptyText}>No replies yet.</Text>}
+            {replies.map(reply => (
+              <View key={reply.id} style={styles.reply}>
+                <Text variant="labelMedium" style={styles.senderName}>
+                  {reply.senderName}
+                  <Text variant="labelSmall" style={styles.timestamp}>
+                    {'  '}{reply.timestamp.toDate().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </Text>
+                </Text>
+                <Text variant="bodyMedium" style={reply.deleted && styles.deletedText}>
+                  {reply.deleted ? 'This message was deleted' : ChatService.getMessagePreview(reply.text, reply.attachment)}
+                </Text>
+              </View>
+            ))}
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          {parent && onReply && <Button onPress={() => onReply(parent)}>Reply</Button>}
+          <Button onPress={onDismiss}>Close</Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  dialog: {
+    maxHeight: '80%',
+  },
+  parent: {
+    marginHorizontal: 24,
+    marginBottom: 12,
+    paddingLeft: 8,
+    borderLeftWidth: 3,
+  },
+  senderName: {
+    fontWeight: 'bold',
+  },
+  timestamp: {
+    color: '#888',
+    fontWeight: 'normal',
+  },
+  reply: {
+    paddingVertical: 8,
+  },
+  deletedText: {
+    fontStyle: 'italic',
+    opacity: 0.7,
+  },
+  emptyText: {
+    color: '#666',
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+});
@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StyleSheet, FlatList, View, ScrollView, ActivityIndicator } from 'react-native';
+import {
+  Button,
+  Card,
+  Chip,
+  Dialog,
+  Portal,
+  SegmentedButtons,
+  Text,
+  TextInput,
+} from 'react-native-paper';
+import {
+  ChatService,
+  ProjectRequest,
+  ProjectRequestStatus,
+  RequestNote,
+} from '../../services/chatService';
+import { ServiceError } from '../../services/serviceResult';
+import { showServiceError } from '@/components/showServiceError';
+import { RequestStatusLabel } from '@/components/RequestStatusLabel';
+
+type StatusFilter = 'all' | Exclude<ProjectRequestStatus, 'pending'>;
+
+interface RequestHistoryProps {
+  currentUserId: string;
+}
+
+// Resolved requests to the owner's projects, with their private notes
+export function RequestHistory({ currentUserId }: RequestHistoryProps): JSX.Element {
+  const [requests, setRequests] = useState<ProjectRequest[]>([]);
+  const [notes, setNotes] = useState<Record<string, RequestNote>>({});
+  const [loading, setLoading] = useState<boolean>(true);
+  const [loadError, setLoadError] = useState<ServiceError | null>(null);
+  const [reloadKey, setReloadKey] = useState<number>(0); // Bumped to resubscribe after an error
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [projectFilter, setProjectFilter] = useState<string | null>(null);
+  const [editingNote, setEditingNote] = useState<ProjectRequest | null>(null);
+  const [draftNote, setDraftNote] = useState<string>('');
+  const [savingNote, setSavingNote] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!currentUserId) return;
+    setLoading(true);
+    setLoadError(null);
+
+    const handleError = (error: ServiceError) => {
+      setLoadError(error);
+      setLoading(false);
+    };
+
+    const unsubscribeRequests = ChatService.subscribeToOwnerRequestHistory(
+      currentUserId,
+      (ownerRequests) => {
+        setRequests(ownerRequests.filter(request => request.status !== 'pending'));
+        setLoading(false);
+      },
+      handleError
+    );
+    const unsubscribeNotes = ChatService.subscribeToRequestNotes(currentUserId, setNotes, handleError);
+
+    return () => {
+      unsubscribeRequests();
+      unsubscribeNotes();
+    };
+  }, [currentUserId, reloadKey]);
+
+  // One chip per project that has received requests
+  const projects = useMemo(() => {
+    const names = new Map<string, string>();
+    requests.forEach(request => names.set(request.projectId, request.projectName));
+    return Array.from(names, ([projectId, projectName]) => ({ projectId, projectName }));
+  }, [requests]);
+
+  const filteredRequests = requests.filter(request =>
+    (statusFilter === 'all' || request.status === statusFilter) &&
+    (!projectFilter || request.projectId === projectFilter)
+  );
+
+  const openNoteEditor = (request: ProjectRequest): void => {
+    setDraftNote(notes[request.id]?.note || '');
+    setEditingNote(request);
+  };
+
+  const saveNote = async (): Promise<void> => {
+    if (!editingNote) return;
+    setSavingNote(true);
+    try {
+      const result = await ChatService.saveRequestNote(editingNote.id, currentUserId, draftNote);
+      if (result.ok) {
+        setEditingNote(null);
+      } else {
+        showServiceError('Could not save note', result.error, saveNote);
+      }
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const renderHistoryItem = ({ item }: { item: ProjectRequest }): JSX.Element => {
+    const respondedAt = (item.respondedAt ?? item.updatedAt).toDate();
+    const note = notes[item.id];
+
+    return (
+      <Card style={styles.card}>
+        <Card.Title
+          title={item.fromUserName}
+          subtitle={item.projectName}
+          right={() => <RequestStatusLabel status={item.status} />}
+        />
+        <Card.Content>
+          {!!item.message && (
+            <Text variant="bodySmall" style={styles.message}>&quot;{item.message}&quot;</Text>
+          )}
+          {!!item.declineReason && (
+            <Text variant="bodySmall" style={styles.detail}>
+              Reason given: {item.declineReason}
+            </Text>
+          )}
+          {note && (
+            <View style={styles.noteContainer}>
+              <Text variant="labelSmall" style={styles.noteLabel}>Private note</Text>
+              <Text variant="bodySmall">{note.note}</Text>
+            </View>
+          )}
+          <Text variant="bodySmall" style={styles.timestamp}>
+            {respondedAt.toLocaleDateString()} at {respondedAt.toLocaleTimeString()}
+          </Text>
+        </Card.Content>
+        <Card.Actions>
+          <Button compact icon="note-edit-outline" onPress={() => openNoteEditor(item)}>
+            {note ? 'Edit note' : 'Add note'}
+          </Button>
+        </Card.Actions>
+      </Card>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text variant="bodyLarge" style={styles.emptyText}>Couldn&apos;t load request history</Text>
+        <Text variant="bodyMedium" style={styles.emptySubtext}>{loadError.message}</Text>
+        {loadError.retryable && (
+          <Button mode="outlined" onPress={() => setReloadKey(key => key + 1)} style={styles.retryButton}>
+            Retry
+          </Button>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <SegmentedButtons
+        value={statusFilter}
+        onValueChange={(value) => setStatusFilter(value as StatusFilter)}
+        buttons={[
+          { value: 'all', label: 'All' },
+          { value: 'accepted', label: 'Accepted' },
+          { value: 'declined', label: 'Declined' },
+          { value: 'withdrawn', label: 'Withdrawn' },
+        ]}
+        style={styles.statusFilter}
+      />
+
+      {projects.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.projectFilter}>
+          <Chip selected={!projectFilter} onPress={() => setProjectFilter(null)} style={styles.projectChip}>
+            All projects
+          </Chip>
+          {projects.map(project => (
+            <Chip
+              key={project.projectId}
+              selected={projectFilter === project.projectId}
+              onPress={() => setProjectFilter(project.projectId)}
+              style={styles.projectChip}
+            >
+              {project.projectName}
+            </Chip>
+          ))}
+        </ScrollView>
+      )}
+
+      {filteredRequests.length === 0 ? (
+        <View style={[styles.container, styles.centered]}>
+          <Text variant="bodyLarge" style={styles.emptyText}>No requests here</Text>
+          <Text variant="bodyMedium" style={styles.emptySubtext}>
+            Requests you accept or decline, and ones that are withdrawn, will appear here.
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={filteredRequests}
+          renderItem={renderHistoryItem}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+
+      <Portal>
+        <Dialog visible={!!editingNote} onDismiss={() => setEditingNote(null)}>
+          <Dialog.Title>Private note</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodySmall" style={styles.dialogHint}>
+              Only you can see this note. Leave it empty to remove it.
+            </Text>
+            <TextInput mode="outlined" multiline value={draftNote} onChangeText={setDraftNote} />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setEditingNote(null)}>Cancel</Button>
+            <Button onPress={saveNote} loading={savingNote} disabled={savingNote}>Save</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  statusFilter: {
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  projectFilter: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    gap: 8,
+  },
+  projectChip: {
+    height: 32,
+  },
+  listContent: {
+    padding: 16,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  message: {
+    fontStyle: 'italic',
+    marginBottom: 8,
+  },
+  detail: {
+    color: '#666',
+    marginBottom: 8,
+  },
+  noteContainer: {
+    marginBottom: 8,
+    padding: 8,
+    backgroundColor: '#fff8e1',
+    borderRadius: 6,
+  },
+  noteLabel: {
+    color: '#8d6e63',
+    marginBottom: 2,
+  },
+  timestamp: {
+    color: '#999',
+    textAlign: 'right',
+  },
+  dialogHint: {
+    color: '#666',
+    marginBottom: 8,
+  },
+  retryButton: {
+    marginTop: 16,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#666',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    textAlign: 'center',
+    color: '#999',
+    paddingHorizontal: 32,
+    lineHeight: 20,
+  },
+});
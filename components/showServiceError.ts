@@ -0,0 +1,16 @@
+import { Alert } from 'react-native';
+import { ServiceError } from '@/services/serviceResult';
+
+// Show a service error, offering a retry when the failure may be temporary
+export function showServiceError(title: string, error: ServiceError, onRetry?: () => void): void {
+  Alert.alert(
+    title,
+    error.message,
+    error.retryable && onRetry
+      ? [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Retry', onPress: onRetry },
+        ]
+      : [{ text: 'OK' }]
+  );
+}
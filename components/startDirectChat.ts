@@ -0,0 +1,30 @@
+import { router } from 'expo-router';
+import { ChatService, DMParticipant } from '@/services/chatService';
+import { FriendService } from '@/services/friendService';
+import { showServiceError } from '@/components/showServiceError';
+
+// Open (creating if needed) the direct chat with another user and jump to it in the chat tab
+export async function startDirectChat(
+  currentUserId: string,
+  other: Omit<DMParticipant, 'lastReadAt'>
+): Promise<void> {
+  const retry = () => startDirectChat(currentUserId, other);
+
+  const me = await FriendService.getProfile(currentUserId);
+  if (!me.ok) {
+    showServiceError('Could not open chat', me.error, retry);
+    return;
+  }
+
+  // Only copy the participant fields; callers may pass richer member or friend objects
+  const result = await ChatService.getOrCreateDirectChat(
+    { userId: me.value.userId, displayName: me.value.displayName, email: me.value.email },
+    { userId: other.userId, displayName: other.displayName, email: other.email }
+  );
+  if (!result.ok) {
+    showServiceError('Could not open chat', result.error, retry);
+    return;
+  }
+
+  router.push({ pathname: '/(tabs)/chat', params: { chatId: result.value, chatType: 'direct' } });
+}
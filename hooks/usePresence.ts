@@ -0,0 +1,72 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import {
+  PRESENCE_HEARTBEAT_MS,
+  PresenceDoc,
+  PresenceService,
+  UserPresence,
+} from '@/services/presenceService';
+
+/**
+ * Report the signed-in user as online while the app is in the foreground,
+ * refreshing lastSeen on a heartbeat, and as offline once it is backgrounded.
+ */
+export function usePresenceTracking(userId: string | undefined) {
+  useEffect(() => {
+    if (!userId) return;
+
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+    const stopHeartbeat = () => {
+      if (heartbeat) clearInterval(heartbeat);
+      heartbeat = null;
+    };
+
+    const handleAppState = (state: AppStateStatus) => {
+      if (state === 'active') {
+        PresenceService.setOnline(userId);
+        stopHeartbeat();
+        heartbeat = setInterval(() => PresenceService.setOnline(userId), PRESENCE_HEARTBEAT_MS);
+      } else {
+        stopHeartbeat();
+        PresenceService.setOffline(userId);
+      }
+    };
+
+    handleAppState(AppState.currentState);
+    const subscription = AppState.addEventListener('change', handleAppState);
+
+    return () => {
+      subscription.remove();
+      stopHeartbeat();
+    };
+  }, [userId]);
+}
+
+/**
+ * Live presence for a set of users, keyed by user ID. Re-evaluated on the
+ * heartbeat so users who vanish without going offline age out.
+ */
+export function usePresence(userIds: string[]): Record<string, UserPresence> {
+  const [docs, setDocs] = useState<Record<string, PresenceDoc>>({});
+  const [now, setNow] = useState<number>(Date.now());
+  const key = Array.from(new Set(userIds)).sort().join(',');
+
+  useEffect(() => {
+    const unsubscribe = PresenceService.subscribeToPresence(key ? key.split(',') : [], setDocs);
+    return () => unsubscribe();
+  }, [key]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), PRESENCE_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return useMemo(() => {
+    const presence: Record<string, UserPresence> = {};
+    (key ? key.split(',') : []).forEach(userId => {
+      presence[userId] = PresenceService.toUserPresence(userId, docs[userId], now);
+    });
+    return presence;
+  }, [key, docs, now]);
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import {
+  TYPING_IDLE_MS,
+  TYPING_THROTTLE_MS,
+  TypingChatType,
+  TypingService,
+  TypingUser,
+} from '@/services/typingService';
+
+/**
+ * Publish the signed-in user's typing state for a chat. Call the returned
+ * function with the input's text on every change: writes are throttled, and
+ * the state is cleared once the input empties, the user pauses, the app is
+ * backgrounded or the chat closes. Does nothing when chatType is null.
+ */
+export function useTypingPublisher(
+  chatType: TypingChatType | null,
+  chatId: string,
+  userId: string | undefined,
+  displayName: string
+): (text: string) => void {
+  const lastWriteRef = useRef<number>(0); // 0 while not marked as typing
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stop = useCallback(() => {
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = null;
+    if (!chatType || !userId || lastWriteRef.current === 0) return;
+
+    lastWriteRef.current = 0;
+    TypingService.clearTyping(chatType, chatId, userId);
+  }, [chatType, chatId, userId]);
+
+  useEffect(() => {
+    const handleAppState = (state: AppStateStatus) => {
+      if (state !== 'active') stop();
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppState);
+    return () => {
+      subscription.remove();
+      stop();
+    };
+  }, [stop]);
+
+  return useCallback((text: string) => {
+    if (!chatType || !userId) return;
+    if (text.trim() === '') {
+      stop();
+      return;
+    }
+
+    const now = Date.now();
+    if (now - lastWriteRef.current >= TYPING_THROTTLE_MS) {
+      lastWriteRef.current = now;
+      TypingService.setTyping(chatType, chatId, userId, displayName);
+    }
+
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(stop, TYPING_IDLE_MS);
+  }, [chatType, chatId, userId, displayName, stop]);
+}
+
+/**
+ * Names of the other people typing in a chat right now. Re-evaluated every
+ * second while anyone has a typing doc so abandoned ones expire.
+ */
+export function useTypingUsers(
+  chatType: TypingChatType | null,
+  chatId: string,
+  currentUserId: string | undefined
+): string[] {
+  const [typing, setTyping] = useState<TypingUser[]>([]);
+  const [now, setNow] = useState<number>(Date.now());
+
+  useEffect(() => {
+    if (!chatType) {
+      setTyping([]);
+      return;
+    }
+
+    const unsubscribe = TypingService.subscribeToTyping(chatType, chatId, setTyping);
+    return () => unsubscribe();
+  }, [chatType, chatId]);
+
+  const anyoneTyping = typing.length > 0;
+  useEffect(() => {
+    if (!anyoneTyping) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [anyoneTyping]);
+
+  return useMemo(
+    () => typing
+      .filter(t => t.userId !== currentUserId && TypingService.isFresh(t, now))
+      .map(t => t.displayName),
+    [typing, currentUserId, now]
+  );
+}
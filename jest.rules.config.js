@@ -0,0 +1,7 @@
+// Security rules tests. These need the Firestore and Storage emulators, so they are
+// kept out of the default Jest run; use `npm run test:rules`.
+module.exports = {
+  preset: 'jest-expo/node',
+  testMatch: ['<rootDir>/__tests__/rules/**/*-test.ts'],
+  testTimeout: 20000,
+};
@@ -0,0 +1,120 @@
+import { ref, uploadBytesResumable, getDownloadURL, deleteObject } from 'firebase/storage';
+import { storage } from '../firebase';
+import { fail, failFromError, ok, Result, toServiceError } from './serviceResult';
+
+// Largest file we let people attach to a chat message
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+// Type definitions
+export interface ChatAttachment {
+  name: string;
+  size: number; // Bytes
+  mimeType: string;
+  width?: number; // Images only
+  height?: number; // Images only
+  storagePath: string; // Read through Storage rules, never a public URL
+}
+
+// A file picked on the device, before upload
+export interface PickedAttachment {
+  uri: string;
+  name: string;
+  size?: number;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+}
+
+export class AttachmentService {
+  // Load a local file URI into a Blob for upload
+  private static async uriToBlob(uri: string): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.onload = () => resolve(xhr.response);
+      xhr.onerror = (e) => { console.error(e); reject(new TypeError('Network request failed')); };
+      xhr.responseType = 'blob';
+      xhr.open('GET', uri, true);
+      xhr.send(null);
+    });
+  }
+
+  // Keep file names safe to use as a Storage path segment
+  private static sanitizeFileName(name: string): string {
+    return name.replace(/[^\w.-]+/g, '_').slice(-100) || 'file';
+  }
+
+  // Whether an attachment should be rendered as an image
+  static isImage(attachment: Pick<ChatAttachment, 'mimeType'>): boolean {
+    return attachment.mimeType.startsWith('image/');
+  }
+
+  // Human readable file size, e.g. "1.4 MB"
+  static formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  // Upload a picked file under the chat's folder and return its metadata
+  static async uploadChatAttachment(
+    chatId: string,
+    uploaderId: string,
+    file: PickedAttachment,
+    onProgress?: (fraction: number) => void
+  ): Promise<Result<ChatAttachment>> {
+    let blob: Blob | null = null;
+    try {
+      blob = await this.uriToBlob(file.uri);
+      const size = file.size || blob.size;
+      if (size > MAX_ATTACHMENT_BYTES) {
+        return fail('validation', 'Attachments must be 20 MB or smaller.');
+      }
+
+      const mimeType = file.mimeType || blob.type || 'application/octet-stream';
+      const storagePath = `chatAttachments/${chatId}/${uploaderId}/${Date.now()}_${this.sanitizeFileName(file.name)}`;
+      const uploadTask = uploadBytesResumable(ref(storage, storagePath), blob, { contentType: mimeType });
+
+      await new Promise<void>((resolve, reject) => {
+        uploadTask.on('state_changed',
+          (snapshot) => onProgress?.(snapshot.bytesTransferred / snapshot.totalBytes),
+          (error) => reject(error),
+          () => resolve()
+        );
+      });
+
+      return ok({
+        name: file.name,
+        size,
+        mimeType,
+        ...(file.width && file.height ? { width: file.width, height: file.height } : {}),
+        storagePath
+      });
+    } catch (error) {
+      return failFromError('Error uploading chat attachment', error);
+    } finally {
+      (blob as any)?.close?.();
+    }
+  }
+
+  // Remove an attachment's file, so links handed out earlier stop working
+  static async deleteAttachment(attachment: Pick<ChatAttachment, 'storagePath'>): Promise<Result<void>> {
+    try {
+      await deleteObject(ref(storage, attachment.storagePath));
+      return ok(undefined);
+    } catch (error) {
+      if (toServiceError(error).code === 'not-found') {
+        return ok(undefined); // Already gone
+      }
+      return failFromError('Error deleting chat attachment', error);
+    }
+  }
+
+  // Resolve a download URL for an attachment; Storage rules check chat membership here
+  static async getAttachmentURL(attachment: Pick<ChatAttachment, 'storagePath'>): Promise<Result<string>> {
+    try {
+      return ok(await getDownloadURL(ref(storage, attachment.storagePath)));
+    } catch (error) {
+      return failFromError('Error resolving attachment URL', error);
+    }
+  }
+}
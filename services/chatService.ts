@@ -7,47 +7,145 @@ import {
   where, 
   orderBy, 
   limit,
+  startAfter,
   Timestamp,
   DocumentData,
   QuerySnapshot, 
+  QueryDocumentSnapshot,
   setDoc,
   updateDoc,
   deleteDoc,
   addDoc,
   getDoc,
+  deleteField,
   arrayUnion,
-  arrayRemove
+  arrayRemove,
+  runTransaction,
+  writeBatch,
+  CollectionReference,
+  Transaction
 } from 'firebase/firestore';
 import { db } from '../firebase';
+import { Project, ProjectService, ProjectStatus } from './projectService';
+import { AttachmentService, ChatAttachment, PickedAttachment } from './attachmentService';
+import { fail, failFromError, ok, Result, ServiceError, toServiceError } from './serviceResult';
+
+// Number of messages loaded per page of chat history
+export const MESSAGE_PAGE_SIZE = 30;
+
+// Unread messages counted per chat; the chat list shows anything past this as "99+"
+export const MAX_UNREAD_COUNT = 99;
+
+// Longest slice of the parent message a reply quotes
+const REPLY_PREVIEW_LENGTH = 120;
+
+// Mentions shown in the mentions feed
+const MENTIONS_PAGE_SIZE = 50;
+
+// Message search indexes every word prefix between these lengths
+const SEARCH_MIN_TOKEN = 2;
+const SEARCH_MAX_TOKEN = 20;
+
+// Index matches read per chat, and results kept per chat, for one search
+const SEARCH_SCAN_LIMIT = 100;
+const SEARCH_RESULTS_PER_CHAT = 20;
+
+// Top-level collection holding each kind of chat thread
+const THREAD_COLLECTIONS: Record<ChatThreadType, string> = {
+  group: 'groupChats',
+  request_dm: 'requestDMs',
+  direct: 'directChats'
+};
+
+// Emoji people can react with. firestore.rules only accepts these, so keep the two in sync.
+export const MESSAGE_REACTIONS = ['👍', '❤️', '😂', '🎉', '👀', '🙏'] as const;
 
 // Type definitions
+export type ChatThreadType = 'group' | 'request_dm' | 'direct';
+
+export type MessageReaction = typeof MESSAGE_REACTIONS[number];
+
+// Emoji -> IDs of the users who reacted with it
+export type MessageReactions = Partial<Record<MessageReaction, string[]>>;
+
+export type MessageCursor = QueryDocumentSnapshot<DocumentData>;
+
+export interface MessagePage<T> {
+  messages: T[]; // Oldest first
+  cursor: MessageCursor | null; // Oldest message in the page, for loading older history
+  hasMore: boolean; // Whether older messages may exist before the cursor
+}
+
+export type ProjectRequestStatus = 'pending' | 'accepted' | 'declined' | 'withdrawn';
+
+// Join requests go from an applicant to the project owner; invites from the owner to someone they'd like on the team
+export type ProjectRequestType = 'join_project' | 'invite';
+
+export const REQUEST_STATUS_LABELS: Record<ProjectRequestStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  withdrawn: 'Withdrawn'
+};
+
 export interface ProjectRequest {
-  id: string;
-  fromUserId: string;
+  id: string; // Invites are keyed by project and invitee, see getInviteId
+  fromUserId: string; // Sender: the applicant, or the owner for invites
   fromUserName: string;
   fromUserEmail: string;
   fromUserAvatar?: string;
-  toUserId: string; // project owner
-  projectId?: string;
+  toUserId: string; // Recipient: the project owner, or the invitee
+  toUserName?: string; // Set on invites, so the invitee can be added to the group chat
+  toUserEmail?: string;
+  projectId: string;
   projectName: string;
   message?: string;
-  status: 'pending' | 'accepted' | 'declined';
-  type: 'join_project';
+  status: ProjectRequestStatus;
+  type: ProjectRequestType;
   createdAt: Timestamp;
   updatedAt: Timestamp;
+  respondedAt?: Timestamp; // When the request left 'pending'
+  declineReason?: string; // Shared with the requester when the owner declines
   hasDM?: boolean; // Whether a temporary DM has been created for this request
 }
 
+// The owner's private note about a request, stored apart so the requester can't read it
+export interface RequestNote {
+  requestId: string;
+  ownerId: string;
+  note: string;
+  updatedAt: Timestamp;
+}
+
+export interface DeclineOptions {
+  reason?: string; // Shown to the requester and posted in the request DM
+  privateNote?: string; // Only visible to the owner
+}
+
+// What happened when an owner accepted or declined a project request
+export type RequestDecisionResult =
+  | {
+      outcome: 'accepted';
+      requestId: string;
+      projectId: string;
+      groupChatId: string;
+      projectStatus: ProjectStatus; // 'full' if this member filled the team
+      closedDMId: string | null;
+    }
+  | { outcome: 'declined'; requestId: string; closedDMId: string | null }
+  | { outcome: 'already_resolved'; requestId: string; status: ProjectRequestStatus }
+  | { outcome: 'not_found'; requestId: string }
+  | { outcome: 'project_full'; requestId: string }
+  | { outcome: 'project_closed'; requestId: string; projectStatus: ProjectStatus | null }
+  | { outcome: 'invites_disabled'; requestId: string } // The group chat stopped allowing invites
+  | { outcome: 'failed'; requestId: string; error: ServiceError };
+
 // Temporary DM for project requests
 export interface RequestDM {
   id: string;
   requestId: string; // Links to the project request
   participants: string[]; // [requesterId, projectOwnerId]
-  participantDetails: Record<string, {
-    userId: string;
-    displayName: string;
-    email: string;
-  }>;
+  participantDetails: Record<string, DMParticipant>;
   projectContext: {
     projectId: string;
     projectName: string;
@@ -63,6 +161,29 @@ export interface RequestDM {
   isActive: boolean;
 }
 
+// Participant of a request DM or direct chat
+export interface DMParticipant {
+  userId: string;
+  displayName: string;
+  email: string;
+  lastReadAt?: Timestamp;
+}
+
+// Persistent 1:1 chat between any two users
+export interface DirectChat {
+  id: string; // Both user IDs, sorted and joined, so each pair has exactly one chat
+  participants: string[]; // Sorted [userA, userB]
+  participantDetails: Record<string, DMParticipant>;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  lastMessage?: {
+    text: string;
+    senderId: string;
+    senderName: string;
+    timestamp: Timestamp;
+  };
+}
+
 export interface RequestDMMessage {
   id: string;
   senderId: string;
@@ -70,6 +191,33 @@ export interface RequestDMMessage {
   text: string;
   timestamp: Timestamp;
   type: 'text' | 'system';
+  reactions?: MessageReactions;
+  searchTokens?: string[]; // Word prefixes for message search; see ChatService.buildSearchTokens
+}
+
+// A chat to look for messages in
+export interface SearchableChat {
+  threadType: ChatThreadType;
+  chatId: string;
+  chatName: string;
+}
+
+// One message found by a search
+export interface MessageSearchHit {
+  threadType: ChatThreadType;
+  chatId: string;
+  chatName: string;
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  snippet: string; // The part of the message around the first match
+  timestamp: Timestamp;
+}
+
+// What a search across several chats found, and which chats it couldn't read
+export interface MessageSearchSummary {
+  hits: MessageSearchHit[];
+  failedChats: SearchableChat[]; // Skipped, e.g. left since the chat list loaded
 }
 
 export interface RequestItem {
@@ -79,6 +227,7 @@ export interface RequestItem {
   avatar?: any;
   message?: string;
   fromUserId: string;
+  projectId: string;
   timestamp: Date;
   hasDM?: boolean; // Whether a DM exists for this request
 }
@@ -93,19 +242,69 @@ export interface FirebaseChatMember {
   lastReadAt?: Timestamp;
 }
 
+// Someone who has read a message, from their read cursor
+export interface ReadReceipt {
+  userId: string;
+  displayName: string;
+  readAt: Timestamp;
+}
+
+// What a reply keeps of the message it answers, as it was when the reply was sent
+export interface MessageReplyRef {
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  text: string; // Preview of the parent, cut to REPLY_PREVIEW_LENGTH
+}
+
+// An @mention inside a message's text, covering the "@Name" characters
+export interface MessageMention {
+  userId: string;
+  start: number;
+  length: number;
+}
+
+// users/{userId}/mentions/{messageId}: someone called the user out in a group chat
+export interface MentionNotice {
+  id: string; // Same as messageId
+  chatId: string;
+  chatName: string;
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  text: string; // Preview of the message
+  createdAt: Timestamp;
+  read: boolean;
+}
+
+// Extra parts of a new group chat message
+export interface GroupMessageOptions {
+  replyTo?: MessageReplyRef;
+  mentions?: MessageMention[];
+}
+
 export interface FirebaseChatMessage {
   id: string;
   senderId: string;
   senderName: string;
   text: string;
   timestamp: Timestamp;
-  type: 'text' | 'image' | 'file';
+  type: 'text' | 'image' | 'file' | 'system'; // System messages are notices from the app, sent as 'system'
+  attachment?: ChatAttachment; // Present for image and file messages
   edited?: boolean;
   editedAt?: Timestamp;
+  deleted?: boolean; // Tombstone: text is cleared but the message keeps its place
+  deletedAt?: Timestamp;
+  deletedBy?: string;
+  reactions?: MessageReactions;
+  replyTo?: MessageReplyRef; // Set when this message answers an earlier one
+  mentions?: MessageMention[];
+  searchTokens?: string[]; // Word prefixes for message search; see ChatService.buildSearchTokens
 }
 
 export interface FirebaseGroupChat {
   id: string;
+  projectId: string; // Links to projects/{projectId}
   projectName: string;
   description?: string;
   memberIds: string[]; // Array of user IDs for efficient querying
@@ -113,23 +312,31 @@ export interface FirebaseGroupChat {
   createdAt: Timestamp;
   updatedAt: Timestamp;
   lastMessage?: {
+    messageId?: string;
     text: string;
     senderId: string;
     senderName: string;
     timestamp: Timestamp;
   };
   isActive: boolean;
+  isReadOnly?: boolean; // Set once the project is finished or archived
   settings: {
     allowInvites: boolean;
     isPublic: boolean;
   };
 }
 
+// How each group chat setting reads in system messages
+const GROUP_SETTING_LABELS: Record<keyof FirebaseGroupChat['settings'], string> = {
+  allowInvites: 'invites',
+  isPublic: 'public visibility'
+};
+
 export class ChatService {
   // ============ GROUP CHAT FUNCTIONS ============
   
   // Get all group chats where user is a member
-  static async getUserGroupChats(userId: string): Promise<FirebaseGroupChat[]> {
+  static async getUserGroupChats(userId: string): Promise<Result<FirebaseGroupChat[]>> {
     try {
       const chatsRef = collection(db, 'groupChats');
       const q = query(
@@ -146,17 +353,35 @@ export class ChatService {
         chats.push({ id: doc.id, ...doc.data() } as FirebaseGroupChat);
       });
       
-      return chats;
+      return ok(chats);
     } catch (error) {
-      console.error('Error fetching user group chats:', error);
-      return [];
+      return failFromError('Error fetching user group chats', error);
     }
   }
 
+  // Subscribe to real-time updates for a single group chat
+  static subscribeToGroupChat(
+    chatId: string,
+    callback: (chat: FirebaseGroupChat | null) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    const chatRef = doc(db, 'groupChats', chatId);
+
+    const unsubscribe = onSnapshot(chatRef, (chatDoc) => {
+      callback(chatDoc.exists() ? ({ id: chatDoc.id, ...chatDoc.data() } as FirebaseGroupChat) : null);
+    }, (error) => {
+      console.error('Error in group chat subscription:', error);
+      onError?.(toServiceError(error));
+    });
+
+    return unsubscribe;
+  }
+
   // Subscribe to real-time updates for user's group chats
   static subscribeToUserGroupChats(
     userId: string, 
-    callback: (chats: FirebaseGroupChat[]) => void
+    callback: (chats: FirebaseGroupChat[]) => void,
+    onError?: (error: ServiceError) => void
   ): () => void {
     const chatsRef = collection(db, 'groupChats');
     const q = query(
@@ -174,123 +399,298 @@ export class ChatService {
       callback(chats);
     }, (error) => {
       console.error('Error in chat subscription:', error);
+      onError?.(toServiceError(error));
     });
 
     return unsubscribe;
   }
 
-  // Get unread message count for a chat
-  static async getUnreadMessageCount(
-    chatId: string, 
-    userId: string, 
-    lastReadMessageId?: string
-  ): Promise<number> {
-    try {
-      if (!lastReadMessageId) {
-        // If user has never read any messages, count all messages
-        const messagesRef = collection(db, 'groupChats', chatId, 'messages');
-        const querySnapshot = await getDocs(messagesRef);
-        return querySnapshot.size;
-      }
+  // Messages subcollection for a group chat, request DM or direct chat
+  private static getMessagesCollection(
+    threadType: ChatThreadType,
+    chatId: string
+  ): CollectionReference<DocumentData> {
+    return collection(db, THREAD_COLLECTIONS[threadType], chatId, 'messages');
+  }
 
-      // For now, return 0 if they have a lastReadMessageId
-      // TODO: Implement proper timestamp-based unread counting
-      return 0;
-    } catch (error) {
-      console.error('Error getting unread message count:', error);
-      return 0;
-    }
+  // Messages from other people newer than the user's read cursor (or when they
+  // joined, if they never opened the chat). System notices are shown in the
+  // thread but never count as unread.
+  private static getUnreadMessagesQuery(
+    threadType: ChatThreadType,
+    chatId: string,
+    userId: string,
+    since: Timestamp
+  ) {
+    return query(
+      this.getMessagesCollection(threadType, chatId),
+      where('timestamp', '>', since),
+      where('senderId', 'not-in', [userId, 'system'])
+    );
+  }
+
+  // Subscribe to the unread message count for a chat, given the user's read cursor.
+  // Stops counting past MAX_UNREAD_COUNT so a busy chat doesn't download its history.
+  // Messages deleted before they were read leave nothing to read, so they don't count;
+  // the query can't also exclude them, so they're dropped here.
+  static subscribeToUnreadCount(
+    threadType: ChatThreadType,
+    chatId: string,
+    userId: string,
+    since: Timestamp,
+    callback: (count: number) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    const q = query(this.getUnreadMessagesQuery(threadType, chatId, userId, since), limit(MAX_UNREAD_COUNT + 1));
+
+    const unsubscribe = onSnapshot(q, (querySnapshot: QuerySnapshot<DocumentData>) => {
+      callback(querySnapshot.docs.filter(messageDoc => messageDoc.data().deleted !== true).length);
+    }, (error) => {
+      console.error('Error in unread count subscription:', error);
+      onError?.(toServiceError(error));
+    });
+
+    return unsubscribe;
+  }
+
+  // Member entry for a group chat's members map
+  static buildChatMember(
+    userId: string,
+    displayName: string,
+    email: string,
+    role: FirebaseChatMember['role']
+  ): FirebaseChatMember {
+    return {
+      userId,
+      displayName,
+      email,
+      joinedAt: Timestamp.now(),
+      role
+    };
+  }
+
+  // Build a notice from the app for a group chat: joins, departures, role,
+  // status and settings changes. Shown centered and never counted as unread.
+  static buildSystemMessage(text: string): Omit<FirebaseChatMessage, 'id'> {
+    return {
+      senderId: 'system',
+      senderName: 'System',
+      text,
+      timestamp: Timestamp.now(),
+      type: 'system'
+    };
+  }
+
+  // Build the document for a new project group chat
+  static buildGroupChat(
+    projectId: string,
+    projectName: string,
+    description: string,
+    creatorId: string,
+    creatorName: string,
+    creatorEmail: string
+  ): Omit<FirebaseGroupChat, 'id'> {
+    const now = Timestamp.now();
+    return {
+      projectId,
+      projectName,
+      description,
+      memberIds: [creatorId],
+      members: {
+        [creatorId]: this.buildChatMember(creatorId, creatorName, creatorEmail, 'owner')
+      },
+      createdAt: now,
+      updatedAt: now,
+      isActive: true,
+      settings: {
+        allowInvites: true,
+        isPublic: false
+      }
+    };
   }
 
   // Create a new group chat
   static async createGroupChat(
+    projectId: string,
     projectName: string,
     description: string,
     creatorId: string,
     creatorName: string,
     creatorEmail: string
-  ): Promise<string | null> {
+  ): Promise<Result<string>> {
     try {
       const chatsRef = collection(db, 'groupChats');
       const newChatRef = doc(chatsRef);
-      
-      const now = Timestamp.now();
-      const newChat: Omit<FirebaseGroupChat, 'id'> = {
+
+      const newChat = this.buildGroupChat(
+        projectId,
         projectName,
         description,
-        memberIds: [creatorId],
-        members: {
-          [creatorId]: {
-            userId: creatorId,
-            displayName: creatorName,
-            email: creatorEmail,
-            joinedAt: now,
-            role: 'owner'
-          }
-        },
-        createdAt: now,
-        updatedAt: now,
-        isActive: true,
-        settings: {
-          allowInvites: true,
-          isPublic: false
-        }
-      };
+        creatorId,
+        creatorName,
+        creatorEmail
+      );
 
       await setDoc(newChatRef, newChat);
-      return newChatRef.id;
+      return ok(newChatRef.id);
     } catch (error) {
-      console.error('Error creating group chat:', error);
-      return null;
+      return failFromError('Error creating group chat', error);
     }
   }
 
-  // Subscribe to real-time messages for a group chat
-  static subscribeToGroupChatMessages(
+  // Convert a group chat message document
+  private static toGroupChatMessage(messageDoc: QueryDocumentSnapshot<DocumentData>): FirebaseChatMessage {
+    const data = messageDoc.data();
+    return {
+      id: messageDoc.id,
+      senderId: data.senderId,
+      senderName: data.senderName,
+      text: data.text,
+      timestamp: data.timestamp,
+      type: data.type || 'text',
+      attachment: data.attachment,
+      edited: data.edited || false,
+      editedAt: data.editedAt,
+      deleted: data.deleted || false,
+      deletedAt: data.deletedAt,
+      deletedBy: data.deletedBy,
+      reactions: data.reactions || {},
+      replyTo: data.replyTo,
+      mentions: data.mentions || []
+    } as FirebaseChatMessage;
+  }
+
+  // Convert a request DM message document
+  private static toRequestDMMessage(messageDoc: QueryDocumentSnapshot<DocumentData>): RequestDMMessage {
+    const data = messageDoc.data();
+    return {
+      id: messageDoc.id,
+      senderId: data.senderId,
+      senderName: data.senderName,
+      text: data.text,
+      timestamp: data.timestamp,
+      type: data.type || 'text',
+      reactions: data.reactions || {}
+    } as RequestDMMessage;
+  }
+
+  // Build a page from a newest-first snapshot
+  private static toMessagePage<T>(
+    docs: QueryDocumentSnapshot<DocumentData>[],
+    pageSize: number,
+    convert: (messageDoc: QueryDocumentSnapshot<DocumentData>) => T
+  ): MessagePage<T> {
+    return {
+      messages: docs.map(convert).reverse(),
+      cursor: docs.length > 0 ? docs[docs.length - 1] : null,
+      hasMore: docs.length === pageSize
+    };
+  }
+
+  // Subscribe to the newest page of messages in a chat
+  private static subscribeToMessageWindow<T>(
+    threadType: ChatThreadType,
     chatId: string,
-    callback: (messages: FirebaseChatMessage[]) => void
+    pageSize: number,
+    convert: (messageDoc: QueryDocumentSnapshot<DocumentData>) => T,
+    callback: (page: MessagePage<T>) => void,
+    onError?: (error: ServiceError) => void
   ): () => void {
-    const messagesRef = collection(db, 'groupChats', chatId, 'messages');
     const q = query(
-      messagesRef,
-      orderBy('timestamp', 'asc'),
-      limit(100)
+      this.getMessagesCollection(threadType, chatId),
+      orderBy('timestamp', 'desc'),
+      limit(pageSize)
     );
 
     const unsubscribe = onSnapshot(q, (querySnapshot: QuerySnapshot<DocumentData>) => {
-      const messages: FirebaseChatMessage[] = [];
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        messages.push({
-          id: doc.id,
-          senderId: data.senderId,
-          senderName: data.senderName,
-          text: data.text,
-          timestamp: data.timestamp,
-          type: data.type || 'text',
-          edited: data.edited || false,
-          editedAt: data.editedAt
-        } as FirebaseChatMessage);
-      });
-      callback(messages);
+      callback(this.toMessagePage(querySnapshot.docs, pageSize, convert));
     }, (error) => {
-      console.error('Error in messages subscription:', error);
+      console.error(`Error in ${threadType} messages subscription:`, error);
+      onError?.(toServiceError(error));
     });
 
     return unsubscribe;
   }
 
+  // Fetch the page of messages just before a cursor
+  private static async getMessagePageBefore<T>(
+    threadType: ChatThreadType,
+    chatId: string,
+    cursor: MessageCursor,
+    pageSize: number,
+    convert: (messageDoc: QueryDocumentSnapshot<DocumentData>) => T
+  ): Promise<Result<MessagePage<T>>> {
+    try {
+      const q = query(
+        this.getMessagesCollection(threadType, chatId),
+        orderBy('timestamp', 'desc'),
+        startAfter(cursor),
+        limit(pageSize)
+      );
+
+      const querySnapshot = await getDocs(q);
+      return ok(this.toMessagePage(querySnapshot.docs, pageSize, convert));
+    } catch (error) {
+      return failFromError(`Error fetching older ${threadType} messages`, error);
+    }
+  }
+
+  // Subscribe to the newest messages for a group chat
+  static subscribeToGroupChatMessages(
+    chatId: string,
+    callback: (page: MessagePage<FirebaseChatMessage>) => void,
+    pageSize: number = MESSAGE_PAGE_SIZE,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    return this.subscribeToMessageWindow(
+      'group',
+      chatId,
+      pageSize,
+      (messageDoc) => this.toGroupChatMessage(messageDoc),
+      callback,
+      onError
+    );
+  }
+
+  // Load the group chat messages older than a cursor
+  static async getOlderGroupChatMessages(
+    chatId: string,
+    cursor: MessageCursor,
+    pageSize: number = MESSAGE_PAGE_SIZE
+  ): Promise<Result<MessagePage<FirebaseChatMessage>>> {
+    return this.getMessagePageBefore(
+      'group',
+      chatId,
+      cursor,
+      pageSize,
+      (messageDoc) => this.toGroupChatMessage(messageDoc)
+    );
+  }
+
   // Send a message to a group chat
   static async sendGroupChatMessage(
     chatId: string,
     senderId: string,
     senderName: string,
     text: string,
-    type: 'text' | 'image' | 'file' = 'text'
-  ): Promise<boolean> {
+    type: 'text' | 'image' | 'file' = 'text',
+    attachment?: ChatAttachment,
+    options: GroupMessageOptions = {}
+  ): Promise<Result<string>> {
     try {
-      const messagesRef = collection(db, 'groupChats', chatId, 'messages');
+      const chatResult = await this.getWritableGroupChat(chatId);
+      if (!chatResult.ok) {
+        return chatResult;
+      }
+      const chat = chatResult.value;
+
+      const messageRef = doc(collection(db, 'groupChats', chatId, 'messages'));
       const now = Timestamp.now();
+      const { replyTo } = options;
+      // Only members other than the sender can be mentioned
+      const mentions = (options.mentions || []).filter(
+        mention => mention.userId !== senderId && chat.memberIds.includes(mention.userId)
+      );
       
       const newMessage: Omit<FirebaseChatMessage, 'id'> = {
         senderId,
@@ -298,105 +698,891 @@ export class ChatService {
         text,
         timestamp: now,
         type,
+        ...(attachment ? { attachment } : {}),
+        ...(replyTo ? { replyTo } : {}),
+        ...(mentions.length > 0 ? { mentions } : {}),
+        searchTokens: this.buildSearchTokens(`${text} ${attachment?.name || ''}`),
         edited: false
       };
 
-      await addDoc(messagesRef, newMessage);
+      // The message, its mention notices and the chat preview land together
+      const batch = writeBatch(db);
+      batch.set(messageRef, newMessage);
 
-      const chatRef = doc(db, 'groupChats', chatId);
-      await updateDoc(chatRef, {
+      const preview = this.getMessagePreview(text, attachment);
+      new Set(mentions.map(mention => mention.userId)).forEach(userId => {
+        batch.set(
+          doc(db, 'users', userId, 'mentions', messageRef.id),
+          this.buildMentionNotice(chat, messageRef.id, senderId, senderName, preview, now)
+        );
+      });
+
+      batch.update(doc(db, 'groupChats', chatId), {
         lastMessage: {
-          text,
+          messageId: messageRef.id,
+          text: preview,
           senderId,
           senderName,
           timestamp: now
         },
         updatedAt: now
       });
+      await batch.commit();
 
-      return true;
+      return ok(messageRef.id);
     } catch (error) {
-      console.error('Error sending group chat message:', error);
-      return false;
+      return failFromError('Error sending group chat message', error);
     }
   }
 
-  // Get messages for a group chat (one-time fetch)
-  static async getGroupChatMessages(
+  // Notice telling a member they were mentioned in a group chat message
+  private static buildMentionNotice(
+    chat: FirebaseGroupChat,
+    messageId: string,
+    senderId: string,
+    senderName: string,
+    preview: string,
+    createdAt: Timestamp
+  ): Omit<MentionNotice, 'id'> {
+    return {
+      chatId: chat.id,
+      chatName: chat.projectName,
+      messageId,
+      senderId,
+      senderName,
+      text: preview,
+      createdAt,
+      read: false
+    };
+  }
+
+  // Snapshot a message for a reply to quote
+  static buildReplyRef(
+    message: Pick<FirebaseChatMessage, 'id' | 'senderId' | 'senderName' | 'text' | 'attachment'>
+  ): MessageReplyRef {
+    const preview = this.getMessagePreview(message.text, message.attachment);
+    return {
+      messageId: message.id,
+      senderId: message.senderId,
+      senderName: message.senderName,
+      text: preview.length > REPLY_PREVIEW_LENGTH ? `${preview.slice(0, REPLY_PREVIEW_LENGTH)}…` : preview
+    };
+  }
+
+  // Subscribe to every reply to one group chat message, oldest first
+  static subscribeToMessageReplies(
     chatId: string,
-    messageLimit: number = 50
-  ): Promise<FirebaseChatMessage[]> {
-    try {
-      const messagesRef = collection(db, 'groupChats', chatId, 'messages');
-      const q = query(
-        messagesRef,
-        orderBy('timestamp', 'desc'),
-        limit(messageLimit)
-      );
+    messageId: string,
+    callback: (replies: FirebaseChatMessage[]) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    const q = query(
+      collection(db, 'groupChats', chatId, 'messages'),
+      where('replyTo.messageId', '==', messageId)
+    );
 
-      const querySnapshot = await getDocs(q);
-      const messages: FirebaseChatMessage[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        messages.push({
-          id: doc.id,
-          senderId: data.senderId,
-          senderName: data.senderName,
-          text: data.text,
-          timestamp: data.timestamp,
-          type: data.type || 'text',
-          edited: data.edited || false,
-          editedAt: data.editedAt
-        } as FirebaseChatMessage);
-      });
+    // Sorted here rather than in the query so it needs no composite index
+    return onSnapshot(q, (querySnapshot: QuerySnapshot<DocumentData>) => {
+      const replies = querySnapshot.docs
+        .map((messageDoc) => this.toGroupChatMessage(messageDoc))
+        .sort((a, b) => a.timestamp.toMillis() - b.timestamp.toMillis());
+      callback(replies);
+    }, (error) => {
+      console.error('Error in message replies subscription:', error);
+      onError?.(toServiceError(error));
+    });
+  }
 
-      return messages.reverse();
-    } catch (error) {
-      console.error('Error fetching group chat messages:', error);
-      return [];
+  // Fetch a group chat that still accepts new messages
+  private static async getWritableGroupChat(chatId: string): Promise<Result<FirebaseGroupChat>> {
+    const chatResult = await this.getGroupChatById(chatId);
+    if (chatResult.ok && chatResult.value.isReadOnly) {
+      return fail('validation', 'This project has ended. The chat is read-only.');
     }
+    return chatResult;
+  }
+
+  // Short text for chat previews, describing attachments when there's no caption
+  static getMessagePreview(text: string, attachment?: ChatAttachment): string {
+    if (text || !attachment) return text;
+    return AttachmentService.isImage(attachment) ? '📷 Photo' : `📎 ${attachment.name}`;
   }
 
-  static async getGroupChatById(chatId: string): Promise<FirebaseGroupChat | null> {
+  // Upload a file to the chat's storage folder and send it as a message
+  static async sendGroupChatAttachment(
+    chatId: string,
+    senderId: string,
+    senderName: string,
+    file: PickedAttachment,
+    caption: string = '',
+    onProgress?: (fraction: number) => void
+  ): Promise<Result<string>> {
     try {
-      const chatRef = doc(db, 'groupChats', chatId);
-      const chatDoc = await getDoc(chatRef);
-      
-      if (!chatDoc.exists()) {
-        return null;
+      const chatResult = await this.getWritableGroupChat(chatId);
+      if (!chatResult.ok) {
+        return chatResult;
       }
-      
-      return { id: chatDoc.id, ...chatDoc.data() } as FirebaseGroupChat;
+
+      const uploadResult = await AttachmentService.uploadChatAttachment(chatId, senderId, file, onProgress);
+      if (!uploadResult.ok) {
+        return uploadResult;
+      }
+
+      const attachment = uploadResult.value;
+      return await this.sendGroupChatMessage(
+        chatId,
+        senderId,
+        senderName,
+        caption,
+        AttachmentService.isImage(attachment) ? 'image' : 'file',
+        attachment
+      );
     } catch (error) {
-      console.error('Error fetching group chat by ID:', error);
-      return null;
+      return failFromError('Error sending group chat attachment', error);
     }
   }
 
-  // Mark messages as read for a user
-  static async markMessagesAsRead(
+  // Edit the text of your own group chat message
+  static async editGroupChatMessage(
     chatId: string,
-    userId: string,
-    lastMessageId: string
-  ): Promise<boolean> {
+    messageId: string,
+    editorId: string,
+    text: string
+  ): Promise<Result<void>> {
     try {
-      const chatRef = doc(db, 'groupChats', chatId);
-      await updateDoc(chatRef, {
-        [`members.${userId}.lastReadMessageId`]: lastMessageId,
-        [`members.${userId}.lastReadAt`]: Timestamp.now()
+      if (text.trim() === '') {
+        return fail('validation', "A message can't be empty.");
+      }
+
+      const chatResult = await this.getWritableGroupChat(chatId);
+      if (!chatResult.ok) {
+        return chatResult;
+      }
+      const chat = chatResult.value;
+
+      const messageRef = doc(db, 'groupChats', chatId, 'messages', messageId);
+      const messageDoc = await getDoc(messageRef);
+      if (!messageDoc.exists()) {
+        return fail('not-found', 'This message no longer exists.');
+      }
+
+      const message = messageDoc.data() as Omit<FirebaseChatMessage, 'id'>;
+      if (message.senderId !== editorId) {
+        return fail('permission-denied', 'You can only edit your own messages.');
+      }
+      if (message.deleted) {
+        return fail('validation', 'This message was deleted.');
+      }
+
+      const now = Timestamp.now();
+      const preview = this.getMessagePreview(text, message.attachment);
+      // Mentions move with the text, so find them again; only other members count
+      const mentions = this.findMentions(text, Object.values(chat.members))
+        .filter(mention => mention.userId !== editorId);
+      const mentionedIds = new Set(mentions.map(mention => mention.userId));
+      const previousIds = new Set((message.mentions || []).map(mention => mention.userId));
+      // Anyone still mentioned may have cleared their notice; updating it would fail the edit
+      const clearedIds = new Set(
+        (await Promise.all(
+          Array.from(mentionedIds)
+            .filter(userId => previousIds.has(userId))
+            .map(async userId => {
+              const noticeDoc = await getDoc(doc(db, 'users', userId, 'mentions', messageId));
+              return noticeDoc.exists() ? null : userId;
+            })
+        )).filter((userId): userId is string => userId !== null)
+      );
+
+      const batch = writeBatch(db);
+      batch.update(messageRef, {
+        text,
+        mentions: mentions.length > 0 ? mentions : deleteField(),
+        edited: true,
+        editedAt: now,
+        searchTokens: this.buildSearchTokens(`${text} ${message.attachment?.name || ''}`)
+      });
+
+      // Notify newly mentioned members, refresh the quote for the rest and
+      // take back notices from anyone no longer mentioned
+      mentionedIds.forEach(userId => {
+        const noticeRef = doc(db, 'users', userId, 'mentions', messageId);
+        if (clearedIds.has(userId)) {
+          return;
+        }
+        if (previousIds.has(userId)) {
+          batch.update(noticeRef, { text: preview });
+        } else {
+          batch.set(noticeRef, this.buildMentionNotice(chat, messageId, editorId, message.senderName, preview, now));
+        }
+      });
+      previousIds.forEach(userId => {
+        if (!mentionedIds.has(userId)) {
+          batch.delete(doc(db, 'users', userId, 'mentions', messageId));
+        }
       });
-      return true;
+
+      // Keep the chat preview in sync when the latest message changes
+      if (chat.lastMessage?.messageId === messageId) {
+        batch.update(doc(db, 'groupChats', chatId), { 'lastMessage.text': preview });
+      }
+      await batch.commit();
+
+      return ok(undefined);
     } catch (error) {
-      console.error('Error marking messages as read:', error);
-      return false;
+      return failFromError('Error editing group chat message', error);
     }
   }
 
-  // ============ REQUEST DM FUNCTIONS ============
+  // Delete a group chat message, leaving a tombstone. Senders can delete their own
+  // messages; chat owners and admins can delete anyone's.
+  static async deleteGroupChatMessage(
+    chatId: string,
+    messageId: string,
+    actorId: string
+  ): Promise<Result<void>> {
+    try {
+      const chatResult = await this.getWritableGroupChat(chatId);
+      if (!chatResult.ok) {
+        return chatResult;
+      }
+      const chat = chatResult.value;
 
-  // Create a temporary DM for a project request
-  static async createRequestDM(
+      const messageRef = doc(db, 'groupChats', chatId, 'messages', messageId);
+      const messageDoc = await getDoc(messageRef);
+      if (!messageDoc.exists()) {
+        return fail('not-found', 'This message no longer exists.');
+      }
+
+      const message = messageDoc.data() as Omit<FirebaseChatMessage, 'id'>;
+      const actorRole = chat.members[actorId]?.role;
+      const isModerator = actorRole === 'owner' || actorRole === 'admin';
+      if (message.senderId !== actorId && !isModerator) {
+        return fail('permission-denied', "You can't delete other people's messages.");
+      }
+
+      // Mention notices go with the message, since they quote its text
+      const batch = writeBatch(db);
+      batch.update(messageRef, {
+        text: '',
+        attachment: deleteField(),
+        mentions: deleteField(),
+        searchTokens: [],
+        deleted: true,
+        deletedAt: Timestamp.now(),
+        deletedBy: actorId
+      });
+      new Set((message.mentions || []).map(mention => mention.userId)).forEach(userId => {
+        batch.delete(doc(db, 'users', userId, 'mentions', messageId));
+      });
+      await batch.commit();
+
+      // The file itself goes too, or its download link would keep working.
+      // A failure here is logged; the message is already gone from the chat.
+      if (message.attachment) {
+        await AttachmentService.deleteAttachment(message.attachment);
+      }
+
+      if (chat.lastMessage?.messageId === messageId) {
+        await this.refreshGroupChatLastMessage(chatId);
+      }
+
+      return ok(undefined);
+    } catch (error) {
+      return failFromError('Error deleting group chat message', error);
+    }
+  }
+
+  // Point the chat preview at the newest message that hasn't been deleted
+  private static async refreshGroupChatLastMessage(chatId: string): Promise<void> {
+    const recentMessages = await this.getGroupChatMessages(chatId, MESSAGE_PAGE_SIZE);
+    if (!recentMessages.ok) {
+      return;
+    }
+
+    const latest = [...recentMessages.value].reverse().find((message) => !message.deleted);
+
+    await updateDoc(doc(db, 'groupChats', chatId), {
+      lastMessage: latest
+        ? {
+            messageId: latest.id,
+            text: this.getMessagePreview(latest.text, latest.attachment),
+            senderId: latest.senderId,
+            senderName: latest.senderName,
+            timestamp: latest.timestamp
+          }
+        : deleteField()
+    });
+  }
+
+  // Get messages for a group chat (one-time fetch)
+  static async getGroupChatMessages(
+    chatId: string,
+    messageLimit: number = 50
+  ): Promise<Result<FirebaseChatMessage[]>> {
+    try {
+      const messagesRef = collection(db, 'groupChats', chatId, 'messages');
+      const q = query(
+        messagesRef,
+        orderBy('timestamp', 'desc'),
+        limit(messageLimit)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const messages = querySnapshot.docs.map((messageDoc) => this.toGroupChatMessage(messageDoc));
+
+      return ok(messages.reverse());
+    } catch (error) {
+      return failFromError('Error fetching group chat messages', error);
+    }
+  }
+
+  static async getGroupChatById(chatId: string): Promise<Result<FirebaseGroupChat>> {
+    try {
+      const chatRef = doc(db, 'groupChats', chatId);
+      const chatDoc = await getDoc(chatRef);
+      
+      if (!chatDoc.exists()) {
+        return fail('not-found', 'This chat no longer exists.');
+      }
+      
+      return ok({ id: chatDoc.id, ...chatDoc.data() } as FirebaseGroupChat);
+    } catch (error) {
+      return failFromError('Error fetching group chat by ID', error);
+    }
+  }
+
+  // Mark messages as read for a user by moving their read cursor
+  static async markMessagesAsRead(
+    chatId: string,
+    userId: string,
+    lastMessageId?: string
+  ): Promise<Result<void>> {
+    try {
+      const chatRef = doc(db, 'groupChats', chatId);
+      await updateDoc(chatRef, {
+        ...(lastMessageId ? { [`members.${userId}.lastReadMessageId`]: lastMessageId } : {}),
+        [`members.${userId}.lastReadAt`]: Timestamp.now()
+      });
+      return ok(undefined);
+    } catch (error) {
+      return failFromError('Error marking messages as read', error);
+    }
+  }
+
+  // ============ REACTIONS ============
+
+  // Add or take back the user's reaction to a message in any kind of chat
+  static async setMessageReaction(
+    threadType: ChatThreadType,
+    chatId: string,
+    messageId: string,
+    userId: string,
+    emoji: MessageReaction,
+    reacted: boolean
+  ): Promise<Result<void>> {
+    try {
+      if (!MESSAGE_REACTIONS.includes(emoji)) {
+        return fail('validation', "That reaction isn't available.");
+      }
+
+      await updateDoc(doc(this.getMessagesCollection(threadType, chatId), messageId), {
+        [`reactions.${emoji}`]: reacted ? arrayUnion(userId) : arrayRemove(userId)
+      });
+      return ok(undefined);
+    } catch (error) {
+      return failFromError('Error updating reaction', error);
+    }
+  }
+
+  // ============ MENTIONS ============
+
+  // Find "@Name" mentions of chat members in a message. Longer names win so
+  // "@Sam Lee" isn't read as "@Sam" followed by text.
+  static findMentions(
+    text: string,
+    members: Pick<FirebaseChatMember, 'userId' | 'displayName'>[]
+  ): MessageMention[] {
+    const candidates = [...members]
+      .filter(member => member.displayName)
+      .sort((a, b) => b.displayName.length - a.displayName.length);
+    const mentions: MessageMention[] = [];
+
+    for (let start = text.indexOf('@'); start !== -1; start = text.indexOf('@', start + 1)) {
+      const member = candidates.find(candidate => text.startsWith(`@${candidate.displayName}`, start));
+      if (member) {
+        mentions.push({ userId: member.userId, start, length: member.displayName.length + 1 });
+        start += member.displayName.length;
+      }
+    }
+
+    return mentions;
+  }
+
+  // Subscribe to the user's most recent mentions, newest first
+  static subscribeToMentions(
+    userId: string,
+    callback: (mentions: MentionNotice[]) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    const q = query(
+      collection(db, 'users', userId, 'mentions'),
+      orderBy('createdAt', 'desc'),
+      limit(MENTIONS_PAGE_SIZE)
+    );
+
+    return onSnapshot(q, (querySnapshot: QuerySnapshot<DocumentData>) => {
+      callback(querySnapshot.docs.map((mentionDoc) => ({ id: mentionDoc.id, ...mentionDoc.data() } as MentionNotice)));
+    }, (error) => {
+      console.error('Error in mentions subscription:', error);
+      onError?.(toServiceError(error));
+    });
+  }
+
+  // Mark some of the user's mentions as seen
+  static async markMentionsRead(userId: string, mentionIds: string[]): Promise<Result<void>> {
+    try {
+      if (mentionIds.length === 0) {
+        return ok(undefined);
+      }
+
+      const batch = writeBatch(db);
+      mentionIds.forEach(mentionId => {
+        batch.update(doc(db, 'users', userId, 'mentions', mentionId), { read: true });
+      });
+      await batch.commit();
+      return ok(undefined);
+    } catch (error) {
+      return failFromError('Error marking mentions as read', error);
+    }
+  }
+
+  // ============ MESSAGE SEARCH ============
+  // Firestore can't match substrings, so each message stores the prefixes of its
+  // words in searchTokens. A search looks up its longest word there and checks
+  // the rest here. Messages sent before the index existed aren't found.
+
+  // Lowercase words of a text, split on anything but letters and digits
+  private static searchWords(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9\u00c0-\u024f]+/)
+      .filter(word => word.length >= SEARCH_MIN_TOKEN);
+  }
+
+  // Every word prefix of a text, for a message's searchTokens
+  static buildSearchTokens(text: string): string[] {
+    const tokens = new Set<string>();
+    this.searchWords(text).forEach(word => {
+      for (let length = SEARCH_MIN_TOKEN; length <= Math.min(word.length, SEARCH_MAX_TOKEN); length++) {
+        tokens.add(word.slice(0, length));
+      }
+    });
+    return Array.from(tokens);
+  }
+
+  // The part of a message around the first search word, with ellipses where it was cut
+  private static buildSnippet(text: string, queryWords: string[]): string {
+    const at = Math.max(0, text.toLowerCase().indexOf(queryWords[0]));
+    const start = Math.max(0, at - 40);
+    const end = Math.min(text.length, at + 80);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  }
+
+  // Find messages in one chat whose words start with every word of the query.
+  // Goes through the chat's own messages, so the usual membership rules apply.
+  static async searchChatMessages(chat: SearchableChat, queryText: string): Promise<Result<MessageSearchHit[]>> {
+    try {
+      const queryWords = Array.from(new Set(this.searchWords(queryText).map(word => word.slice(0, SEARCH_MAX_TOKEN))));
+      if (queryWords.length === 0) {
+        return fail('validation', `Type at least ${SEARCH_MIN_TOKEN} letters to search.`);
+      }
+
+      const longestWord = queryWords.reduce((a, b) => (b.length > a.length ? b : a));
+      const q = query(
+        this.getMessagesCollection(chat.threadType, chat.chatId),
+        where('searchTokens', 'array-contains', longestWord),
+        orderBy('timestamp', 'desc'),
+        limit(SEARCH_SCAN_LIMIT)
+      );
+      const querySnapshot = await getDocs(q);
+
+      const hits = querySnapshot.docs
+        .map((messageDoc) => ({ id: messageDoc.id, ...messageDoc.data() } as FirebaseChatMessage))
+        .filter(message => {
+          const words = this.searchWords(`${message.text} ${message.attachment?.name || ''}`);
+          return !message.deleted && queryWords.every(queryWord => words.some(word => word.startsWith(queryWord)));
+        })
+        .map((message): MessageSearchHit => ({
+          threadType: chat.threadType,
+          chatId: chat.chatId,
+          chatName: chat.chatName,
+          messageId: message.id,
+          senderId: message.senderId,
+          senderName: message.senderName,
+          snippet: this.buildSnippet(this.getMessagePreview(message.text, message.attachment), queryWords),
+          timestamp: message.timestamp
+        }))
+        .sort((a, b) => b.timestamp.toMillis() - a.timestamp.toMillis());
+
+      return ok(hits.slice(0, SEARCH_RESULTS_PER_CHAT));
+    } catch (error) {
+      return failFromError('Error searching messages', error);
+    }
+  }
+
+  // Search several chats at once, newest matches first. A chat that can't be read
+  // is skipped and listed in failedChats; only failing every chat is an error.
+  static async searchMessages(chats: SearchableChat[], queryText: string): Promise<Result<MessageSearchSummary>> {
+    const results = await Promise.all(chats.map(chat => this.searchChatMessages(chat, queryText)));
+    const failed = results.find(result => !result.ok);
+    if (failed && results.every(result => !result.ok)) {
+      return failed;
+    }
+
+    return ok({
+      hits: results
+        .flatMap(result => (result.ok ? result.value : []))
+        .sort((a, b) => b.timestamp.toMillis() - a.timestamp.toMillis()),
+      failedChats: chats.filter((_, index) => !results[index].ok)
+    });
+  }
+
+  // Every chat the user can search: their group chats, request DMs and direct chats
+  static async getSearchableChats(userId: string): Promise<Result<SearchableChat[]>> {
+    const [groupChats, requestDMs, directChats] = await Promise.all([
+      this.getUserGroupChats(userId),
+      this.getUserRequestDMs(userId),
+      this.getUserDirectChats(userId)
+    ]);
+    if (!groupChats.ok) return groupChats;
+    if (!requestDMs.ok) return requestDMs;
+    if (!directChats.ok) return directChats;
+
+    const otherName = (participants: string[], details: Record<string, DMParticipant>): string =>
+      details[participants.find(id => id !== userId) || '']?.displayName || 'Unknown User';
+
+    return ok([
+      ...groupChats.value.map((chat): SearchableChat => ({
+        threadType: 'group',
+        chatId: chat.id,
+        chatName: chat.projectName
+      })),
+      ...requestDMs.value.map((dm): SearchableChat => ({
+        threadType: 'request_dm',
+        chatId: dm.id,
+        chatName: `${otherName(dm.participants, dm.participantDetails)} (Request Chat)`
+      })),
+      ...directChats.value.map((chat): SearchableChat => ({
+        threadType: 'direct',
+        chatId: chat.id,
+        chatName: otherName(chat.participants, chat.participantDetails)
+      }))
+    ]);
+  }
+
+  // ============ READ RECEIPTS ============
+
+  // Who has read a message sent at sentAt (milliseconds), from the read cursors on
+  // FirebaseGroupChat.members or RequestDM.participantDetails. Earliest reader first.
+  static getReadReceipts(
+    readers: Record<string, Pick<DMParticipant, 'userId' | 'displayName' | 'lastReadAt'>>,
+    senderId: string,
+    sentAt: number
+  ): ReadReceipt[] {
+    return Object.values(readers)
+      .filter(reader => reader.userId !== senderId && !!reader.lastReadAt && reader.lastReadAt.toMillis() >= sentAt)
+      .map(reader => ({ userId: reader.userId, displayName: reader.displayName, readAt: reader.lastReadAt as Timestamp }))
+      .sort((a, b) => a.readAt.toMillis() - b.readAt.toMillis());
+  }
+
+  // ============ MEMBER MANAGEMENT ============
+
+  // Read a group chat and its project at the start of a membership change
+  private static async getChatForMemberChange(
+    transaction: Transaction,
+    chatId: string
+  ): Promise<Result<{ chat: FirebaseGroupChat; project: Project | null }>> {
+    const chatDoc = await transaction.get(doc(db, 'groupChats', chatId));
+    if (!chatDoc.exists()) {
+      return fail('not-found', 'This chat no longer exists.');
+    }
+
+    const chat = { id: chatDoc.id, ...chatDoc.data() } as FirebaseGroupChat;
+    const projectDoc = await transaction.get(doc(db, 'projects', chat.projectId));
+    const project = projectDoc.exists() ? ({ id: projectDoc.id, ...projectDoc.data() } as Project) : null;
+
+    return ok({ chat, project });
+  }
+
+  // Post a notice from the app into a group chat
+  private static addSystemMessageInTransaction(transaction: Transaction, chatId: string, text: string): void {
+    transaction.set(doc(collection(db, 'groupChats', chatId, 'messages')), this.buildSystemMessage(text));
+  }
+
+  // Drop a member from a group chat and its project, announcing why
+  private static removeMemberInTransaction(
+    transaction: Transaction,
+    chat: FirebaseGroupChat,
+    project: Project | null,
+    userId: string,
+    notice: string
+  ): void {
+    transaction.update(doc(db, 'groupChats', chat.id), {
+      [`members.${userId}`]: deleteField(),
+      memberIds: arrayRemove(userId),
+      updatedAt: Timestamp.now()
+    });
+    if (project) {
+      ProjectService.removeMemberInTransaction(transaction, project, userId);
+    }
+    this.addSystemMessageInTransaction(transaction, chat.id, notice);
+  }
+
+  // Promote a member to admin or demote an admin (owner only)
+  static async setGroupChatMemberRole(
+    chatId: string,
+    actorId: string,
+    userId: string,
+    role: 'admin' | 'member'
+  ): Promise<Result<void>> {
+    try {
+      return await runTransaction(db, async (transaction): Promise<Result<void>> => {
+        const loaded = await this.getChatForMemberChange(transaction, chatId);
+        if (!loaded.ok) return loaded;
+
+        const { chat } = loaded.value;
+        const actor = chat.members[actorId];
+        const member = chat.members[userId];
+        if (actor?.role !== 'owner') {
+          return fail('permission-denied', 'Only the owner can change roles.');
+        }
+        if (!member) {
+          return fail('not-found', 'This person is no longer in the chat.');
+        }
+        if (member.role === 'owner') {
+          return fail('validation', "Transfer ownership instead of changing the owner's role.");
+        }
+        if (member.role === role) {
+          return ok(undefined);
+        }
+
+        transaction.update(doc(db, 'groupChats', chatId), {
+          [`members.${userId}.role`]: role,
+          updatedAt: Timestamp.now()
+        });
+        this.addSystemMessageInTransaction(
+          transaction,
+          chatId,
+          role === 'admin'
+            ? `${actor.displayName} made ${member.displayName} an admin.`
+            : `${member.displayName} is no longer an admin.`
+        );
+
+        return ok(undefined);
+      });
+    } catch (error) {
+      return failFromError('Error changing member role', error);
+    }
+  }
+
+  // Remove someone from a group chat and its project. Owners can remove
+  // anyone else; admins can only remove plain members.
+  static async removeGroupChatMember(chatId: string, actorId: string, userId: string): Promise<Result<void>> {
+    try {
+      return await runTransaction(db, async (transaction): Promise<Result<void>> => {
+        const loaded = await this.getChatForMemberChange(transaction, chatId);
+        if (!loaded.ok) return loaded;
+
+        const { chat, project } = loaded.value;
+        const actor = chat.members[actorId];
+        const member = chat.members[userId];
+        if (!member) {
+          return ok(undefined); // Already gone
+        }
+        if (userId === actorId) {
+          return fail('validation', 'Leave the chat instead of removing yourself.');
+        }
+        const canRemove = actor?.role === 'owner' || (actor?.role === 'admin' && member.role === 'member');
+        if (!canRemove) {
+          return fail('permission-denied', `You can't remove ${member.displayName}.`);
+        }
+
+        this.removeMemberInTransaction(
+          transaction,
+          chat,
+          project,
+          userId,
+          `${actor.displayName} removed ${member.displayName}.`
+        );
+        return ok(undefined);
+      });
+    } catch (error) {
+      return failFromError('Error removing member', error);
+    }
+  }
+
+  // Leave a group chat and its project. The owner has to hand over ownership first.
+  static async leaveGroupChat(chatId: string, userId: string): Promise<Result<void>> {
+    try {
+      return await runTransaction(db, async (transaction): Promise<Result<void>> => {
+        const loaded = await this.getChatForMemberChange(transaction, chatId);
+        if (!loaded.ok) return loaded;
+
+        const { chat, project } = loaded.value;
+        const member = chat.members[userId];
+        if (!member) {
+          return ok(undefined); // Already gone
+        }
+        if (member.role === 'owner') {
+          return fail('validation', 'Make someone else the owner before leaving.');
+        }
+
+        this.removeMemberInTransaction(transaction, chat, project, userId, `${member.displayName} left the chat.`);
+        return ok(undefined);
+      });
+    } catch (error) {
+      return failFromError('Error leaving group chat', error);
+    }
+  }
+
+  // Change a group chat's settings (owners and admins), announcing each change
+  static async updateGroupChatSettings(
+    chatId: string,
+    actorId: string,
+    settings: Partial<FirebaseGroupChat['settings']>
+  ): Promise<Result<void>> {
+    try {
+      return await runTransaction(db, async (transaction): Promise<Result<void>> => {
+        const loaded = await this.getChatForMemberChange(transaction, chatId);
+        if (!loaded.ok) return loaded;
+
+        const { chat } = loaded.value;
+        const actor = chat.members[actorId];
+        if (actor?.role !== 'owner' && actor?.role !== 'admin') {
+          return fail('permission-denied', 'Only owners and admins can change chat settings.');
+        }
+
+        const changed = (Object.keys(settings) as (keyof FirebaseGroupChat['settings'])[])
+          .filter(key => settings[key] !== undefined && settings[key] !== chat.settings?.[key]);
+        if (changed.length === 0) {
+          return ok(undefined);
+        }
+
+        transaction.update(doc(db, 'groupChats', chatId), {
+          ...Object.fromEntries(changed.map(key => [`settings.${key}`, settings[key]])),
+          updatedAt: Timestamp.now()
+        });
+        changed.forEach(key => {
+          this.addSystemMessageInTransaction(
+            transaction,
+            chatId,
+            `${actor.displayName} turned ${GROUP_SETTING_LABELS[key]} ${settings[key] ? 'on' : 'off'}.`
+          );
+        });
+
+        return ok(undefined);
+      });
+    } catch (error) {
+      return failFromError('Error updating chat settings', error);
+    }
+  }
+
+  // Hand the chat and its project to another member. The old owner stays on as an admin;
+  // the feed post, pending join requests and pending invites move to the new owner with the project.
+  static async transferGroupChatOwnership(
+    chatId: string,
+    ownerId: string,
+    newOwnerId: string
+  ): Promise<Result<void>> {
+    try {
+      // Queries can't run inside a transaction, so find the pending requests and invites up front
+      const chatResult = await this.getGroupChatById(chatId);
+      if (!chatResult.ok) {
+        return chatResult;
+      }
+      const pendingFor = (field: 'fromUserId' | 'toUserId', type: ProjectRequest['type']) => getDocs(query(
+        collection(db, 'projectRequests'),
+        where(field, '==', ownerId),
+        where('projectId', '==', chatResult.value.projectId),
+        where('type', '==', type),
+        where('status', '==', 'pending')
+      ));
+      const [pendingRequests, pendingInvites] = await Promise.all([
+        pendingFor('toUserId', 'join_project'),
+        pendingFor('fromUserId', 'invite')
+      ]);
+
+      return await runTransaction(db, async (transaction): Promise<Result<void>> => {
+        const loaded = await this.getChatForMemberChange(transaction, chatId);
+        if (!loaded.ok) return loaded;
+
+        const { chat, project } = loaded.value;
+        const owner = chat.members[ownerId];
+        const newOwner = chat.members[newOwnerId];
+        if (owner?.role !== 'owner') {
+          return fail('permission-denied', 'Only the owner can transfer ownership.');
+        }
+        if (!newOwner || newOwnerId === ownerId) {
+          return fail('validation', 'Pick another member of the chat.');
+        }
+
+        // All reads must happen before any writes
+        const [requestDocs, inviteDocs] = await Promise.all([
+          Promise.all(pendingRequests.docs.map(requestDoc => transaction.get(requestDoc.ref))),
+          Promise.all(pendingInvites.docs.map(inviteDoc => transaction.get(inviteDoc.ref)))
+        ]);
+
+        const now = Timestamp.now();
+        transaction.update(doc(db, 'groupChats', chatId), {
+          [`members.${ownerId}.role`]: 'admin',
+          [`members.${newOwnerId}.role`]: 'owner',
+          updatedAt: now
+        });
+        if (project && project.ownerId === ownerId) {
+          transaction.update(doc(db, 'projects', project.id), {
+            ownerId: newOwnerId,
+            ownerName: newOwner.displayName,
+            ownerEmail: newOwner.email,
+            updatedAt: now
+          });
+          transaction.update(doc(db, 'posts', project.postId), {
+            uid: newOwnerId,
+            username: newOwner.displayName,
+            photoURL: null
+          });
+          requestDocs
+            .filter(requestDoc => requestDoc.exists() && requestDoc.data().status === 'pending')
+            .forEach(requestDoc => {
+              transaction.update(requestDoc.ref, { toUserId: newOwnerId, updatedAt: now });
+            });
+          inviteDocs
+            .filter(inviteDoc => inviteDoc.exists() && inviteDoc.data().status === 'pending')
+            .forEach(inviteDoc => {
+              transaction.update(inviteDoc.ref, {
+                fromUserId: newOwnerId,
+                fromUserName: newOwner.displayName,
+                fromUserEmail: newOwner.email,
+                updatedAt: now
+              });
+            });
+        }
+        this.addSystemMessageInTransaction(
+          transaction,
+          chatId,
+          `${owner.displayName} made ${newOwner.displayName} the owner.`
+        );
+
+        return ok(undefined);
+      });
+    } catch (error) {
+      return failFromError('Error transferring ownership', error);
+    }
+  }
+
+  // ============ REQUEST DM FUNCTIONS ============
+
+  // Create a temporary DM for a project request
+  static async createRequestDM(
     requestId: string,
     requesterId: string,
     requesterName: string,
@@ -406,12 +1592,15 @@ export class ChatService {
     ownerEmail: string,
     projectId: string,
     projectName: string
-  ): Promise<string | null> {
+  ): Promise<Result<string>> {
     try {
       // Check if a DM already exists for this request
-      const existingDM = await this.getRequestDMByRequestId(requestId);
-      if (existingDM) {
-        return existingDM.id;
+      const existingDM = await this.getRequestDMByRequestId(requestId, ownerId);
+      if (!existingDM.ok) {
+        return existingDM;
+      }
+      if (existingDM.value) {
+        return ok(existingDM.value.id);
       }
 
       const requestDMsRef = collection(db, 'requestDMs');
@@ -444,73 +1633,95 @@ export class ChatService {
         isActive: true
       };
 
-      await setDoc(newDMRef, newRequestDM);
+      // The DM, its opening notice and the request's hasDM flag land together;
+      // the rules only accept the notice along with the DM itself
+      const welcome: Omit<RequestDMMessage, 'id'> = {
+        senderId: 'system',
+        senderName: 'System',
+        text: `This is a temporary chat about the request to join "${projectName}". This conversation will be closed when the request is resolved.`,
+        timestamp: now,
+        type: 'system'
+      };
 
-      // Mark the request as having a DM
-      const requestRef = doc(db, 'projectRequests', requestId);
-      await updateDoc(requestRef, {
+      const batch = writeBatch(db);
+      batch.set(newDMRef, newRequestDM);
+      batch.update(doc(db, 'projectRequests', requestId), {
         hasDM: true,
         updatedAt: now
       });
+      batch.set(doc(collection(newDMRef, 'messages')), welcome);
+      await batch.commit();
 
-      // Add a system message to start the conversation
-      await this.sendRequestDMMessage(
-        newDMRef.id,
-        'system',
-        'System',
-        `This is a temporary chat about the request to join "${projectName}". This conversation will be closed when the request is resolved.`,
-        'system'
-      );
-
-      return newDMRef.id;
+      return ok(newDMRef.id);
     } catch (error) {
-      console.error('Error creating request DM:', error);
-      return null;
+      return failFromError('Error creating request DM', error);
     }
   }
 
-  // Get request DM by request ID
-  static async getRequestDMByRequestId(requestId: string): Promise<RequestDM | null> {
+  // Get request DM by request ID. Security rules only let participants read
+  // request DMs, so the query is scoped to one of them.
+  static async getRequestDMByRequestId(
+    requestId: string,
+    participantId: string,
+    activeOnly: boolean = true
+  ): Promise<Result<RequestDM | null>> {
     try {
       const requestDMsRef = collection(db, 'requestDMs');
       const q = query(
         requestDMsRef,
+        where('participants', 'array-contains', participantId),
         where('requestId', '==', requestId),
-        where('isActive', '==', true),
+        ...(activeOnly ? [where('isActive', '==', true)] : []),
         limit(1)
       );
 
       const querySnapshot = await getDocs(q);
       if (!querySnapshot.empty) {
         const doc = querySnapshot.docs[0];
-        return { id: doc.id, ...doc.data() } as RequestDM;
+        return ok({ id: doc.id, ...doc.data() } as RequestDM);
       }
-      return null;
+      return ok(null);
     } catch (error) {
-      console.error('Error getting request DM by request ID:', error);
-      return null;
+      return failFromError('Error getting request DM by request ID', error);
     }
   }
 
   // Get request DM by ID
-  static async getRequestDMById(dmId: string): Promise<RequestDM | null> {
+  static async getRequestDMById(dmId: string): Promise<Result<RequestDM>> {
     try {
       const dmRef = doc(db, 'requestDMs', dmId);
       const dmDoc = await getDoc(dmRef);
       
       if (!dmDoc.exists()) {
-        return null;
+        return fail('not-found', 'This chat no longer exists.');
       }
       
-      return { id: dmDoc.id, ...dmDoc.data() } as RequestDM;
+      return ok({ id: dmDoc.id, ...dmDoc.data() } as RequestDM);
     } catch (error) {
-      console.error('Error fetching request DM by ID:', error);
-      return null;
+      return failFromError('Error fetching request DM by ID', error);
     }
   }
 
+  // Subscribe to a single request DM, for its participants' read cursors
+  static subscribeToRequestDM(
+    dmId: string,
+    callback: (dm: RequestDM | null) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    const dmRef = doc(db, 'requestDMs', dmId);
+
+    const unsubscribe = onSnapshot(dmRef, (dmDoc) => {
+      callback(dmDoc.exists() ? ({ id: dmDoc.id, ...dmDoc.data() } as RequestDM) : null);
+    }, (error) => {
+      console.error('Error in request DM subscription:', error);
+      onError?.(toServiceError(error));
+    });
+
+    return unsubscribe;
+  }
+
   // Get all active request DMs for a user
-  static async getUserRequestDMs(userId: string): Promise<RequestDM[]> {
+  static async getUserRequestDMs(userId: string): Promise<Result<RequestDM[]>> {
     try {
       const requestDMsRef = collection(db, 'requestDMs');
       const q = query(
@@ -527,17 +1738,17 @@ export class ChatService {
         dms.push({ id: doc.id, ...doc.data() } as RequestDM);
       });
 
-      return dms;
+      return ok(dms);
     } catch (error) {
-      console.error('Error fetching user request DMs:', error);
-      return [];
+      return failFromError('Error fetching user request DMs', error);
     }
   }
 
   // Subscribe to real-time updates for user's request DMs
   static subscribeToUserRequestDMs(
     userId: string,
-    callback: (dms: RequestDM[]) => void
+    callback: (dms: RequestDM[]) => void,
+    onError?: (error: ServiceError) => void
   ): () => void {
     const requestDMsRef = collection(db, 'requestDMs');
     const q = query(
@@ -555,19 +1766,20 @@ export class ChatService {
       callback(dms);
     }, (error) => {
       console.error('Error in request DM subscription:', error);
+      onError?.(toServiceError(error));
     });
 
     return unsubscribe;
   }
 
-  // Send a message in a request DM
+  // Send a message in a request DM. Notices from the app are written by the
+  // flows that open and decline the request instead.
   static async sendRequestDMMessage(
     dmId: string,
     senderId: string,
     senderName: string,
-    text: string,
-    type: 'text' | 'system' = 'text'
-  ): Promise<boolean> {
+    text: string
+  ): Promise<Result<void>> {
     try {
       const messagesRef = collection(db, 'requestDMs', dmId, 'messages');
       const now = Timestamp.now();
@@ -577,84 +1789,266 @@ export class ChatService {
         senderName,
         text,
         timestamp: now,
-        type
+        type: 'text',
+        searchTokens: this.buildSearchTokens(text)
       };
 
       // Add the message to the messages subcollection
       await addDoc(messagesRef, newMessage);
 
-      // Update the DM's last message (unless it's a system message)
-      if (type !== 'system') {
-        const dmRef = doc(db, 'requestDMs', dmId);
-        await updateDoc(dmRef, {
-          lastMessage: {
-            text,
-            senderId,
-            senderName,
-            timestamp: now
-          },
-          updatedAt: now
-        });
-      }
+      const dmRef = doc(db, 'requestDMs', dmId);
+      await updateDoc(dmRef, {
+        lastMessage: {
+          text,
+          senderId,
+          senderName,
+          timestamp: now
+        },
+        updatedAt: now
+      });
 
-      return true;
+      return ok(undefined);
     } catch (error) {
-      console.error('Error sending request DM message:', error);
-      return false;
+      return failFromError('Error sending request DM message', error);
     }
   }
 
-  // Subscribe to real-time messages for a request DM
+  // Subscribe to the newest messages for a request DM
   static subscribeToRequestDMMessages(
     dmId: string,
-    callback: (messages: RequestDMMessage[]) => void
+    callback: (page: MessagePage<RequestDMMessage>) => void,
+    pageSize: number = MESSAGE_PAGE_SIZE,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    return this.subscribeToMessageWindow(
+      'request_dm',
+      dmId,
+      pageSize,
+      (messageDoc) => this.toRequestDMMessage(messageDoc),
+      callback,
+      onError
+    );
+  }
+
+  // Load the request DM messages older than a cursor
+  static async getOlderRequestDMMessages(
+    dmId: string,
+    cursor: MessageCursor,
+    pageSize: number = MESSAGE_PAGE_SIZE
+  ): Promise<Result<MessagePage<RequestDMMessage>>> {
+    return this.getMessagePageBefore(
+      'request_dm',
+      dmId,
+      cursor,
+      pageSize,
+      (messageDoc) => this.toRequestDMMessage(messageDoc)
+    );
+  }
+
+  // Mark a request DM as read for a participant
+  static async markRequestDMAsRead(dmId: string, userId: string): Promise<Result<void>> {
+    try {
+      const dmRef = doc(db, 'requestDMs', dmId);
+      await updateDoc(dmRef, {
+        [`participantDetails.${userId}.lastReadAt`]: Timestamp.now()
+      });
+      return ok(undefined);
+    } catch (error) {
+      return failFromError('Error marking request DM as read', error);
+    }
+  }
+
+  // Close a request DM (when request is resolved)
+  static async closeRequestDM(requestId: string, participantId: string): Promise<Result<void>> {
+    try {
+      const requestDM = await this.getRequestDMByRequestId(requestId, participantId);
+      if (!requestDM.ok) {
+        return requestDM;
+      }
+      if (!requestDM.value) {
+        return ok(undefined); // Already closed or doesn't exist
+      }
+
+      const dmRef = doc(db, 'requestDMs', requestDM.value.id);
+      await updateDoc(dmRef, {
+        isActive: false,
+        updatedAt: Timestamp.now()
+      });
+
+      return ok(undefined);
+    } catch (error) {
+      return failFromError('Error closing request DM', error);
+    }
+  }
+
+  // ============ DIRECT CHAT FUNCTIONS ============
+
+  // The direct chat ID for a pair of users, independent of who started it
+  static getDirectChatId(userA: string, userB: string): string {
+    return [userA, userB].sort().join('_');
+  }
+
+  // Open the direct chat between two users, creating it the first time
+  static async getOrCreateDirectChat(
+    me: Omit<DMParticipant, 'lastReadAt'>,
+    other: Omit<DMParticipant, 'lastReadAt'>
+  ): Promise<Result<string>> {
+    if (me.userId === other.userId) {
+      return fail('validation', "You can't message yourself.");
+    }
+
+    const chatId = this.getDirectChatId(me.userId, other.userId);
+    const chatRef = doc(db, 'directChats', chatId);
+
+    try {
+      await runTransaction(db, async (transaction) => {
+        const chatDoc = await transaction.get(chatRef);
+        if (chatDoc.exists()) return;
+
+        const now = Timestamp.now();
+        const directChat: Omit<DirectChat, 'id'> = {
+          participants: [me.userId, other.userId].sort(),
+          participantDetails: { [me.userId]: me, [other.userId]: other },
+          createdAt: now,
+          updatedAt: now
+        };
+        transaction.set(chatRef, directChat);
+      });
+
+      return ok(chatId);
+    } catch (error) {
+      return failFromError('Error opening direct chat', error);
+    }
+  }
+
+  // Get a direct chat by ID
+  static async getDirectChatById(chatId: string): Promise<Result<DirectChat>> {
+    try {
+      const chatDoc = await getDoc(doc(db, 'directChats', chatId));
+      if (!chatDoc.exists()) {
+        return fail('not-found', 'This chat no longer exists.');
+      }
+      return ok({ id: chatDoc.id, ...chatDoc.data() } as DirectChat);
+    } catch (error) {
+      return failFromError('Error fetching direct chat by ID', error);
+    }
+  }
+
+  // Get the user's direct chats, most recently active first
+  static async getUserDirectChats(userId: string): Promise<Result<DirectChat[]>> {
+    try {
+      const q = query(
+        collection(db, 'directChats'),
+        where('participants', 'array-contains', userId),
+        orderBy('updatedAt', 'desc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      return ok(querySnapshot.docs.map((chatDoc) => ({ id: chatDoc.id, ...chatDoc.data() } as DirectChat)));
+    } catch (error) {
+      return failFromError('Error fetching user direct chats', error);
+    }
+  }
+
+  // Subscribe to the user's direct chats, most recently active first
+  static subscribeToUserDirectChats(
+    userId: string,
+    callback: (chats: DirectChat[]) => void,
+    onError?: (error: ServiceError) => void
   ): () => void {
-    const messagesRef = collection(db, 'requestDMs', dmId, 'messages');
     const q = query(
-      messagesRef,
-      orderBy('timestamp', 'asc'),
-      limit(100)
+      collection(db, 'directChats'),
+      where('participants', 'array-contains', userId),
+      orderBy('updatedAt', 'desc')
+    );
+
+    const unsubscribe = onSnapshot(q, (querySnapshot: QuerySnapshot<DocumentData>) => {
+      const chats: DirectChat[] = [];
+      querySnapshot.forEach((doc) => {
+        chats.push({ id: doc.id, ...doc.data() } as DirectChat);
+      });
+      callback(chats);
+    }, (error) => {
+      console.error('Error in direct chat subscription:', error);
+      onError?.(toServiceError(error));
+    });
+
+    return unsubscribe;
+  }
+
+  // Send a message in a direct chat
+  static async sendDirectChatMessage(
+    chatId: string,
+    senderId: string,
+    senderName: string,
+    text: string
+  ): Promise<Result<void>> {
+    try {
+      const now = Timestamp.now();
+      const newMessage: Omit<RequestDMMessage, 'id'> = {
+        senderId,
+        senderName,
+        text,
+        timestamp: now,
+        type: 'text',
+        searchTokens: this.buildSearchTokens(text)
+      };
+
+      const batch = writeBatch(db);
+      batch.set(doc(collection(db, 'directChats', chatId, 'messages')), newMessage);
+      batch.update(doc(db, 'directChats', chatId), {
+        lastMessage: { text, senderId, senderName, timestamp: now },
+        updatedAt: now
+      });
+      await batch.commit();
+
+      return ok(undefined);
+    } catch (error) {
+      return failFromError('Error sending direct message', error);
+    }
+  }
+
+  // Subscribe to the newest messages for a direct chat
+  static subscribeToDirectChatMessages(
+    chatId: string,
+    callback: (page: MessagePage<RequestDMMessage>) => void,
+    pageSize: number = MESSAGE_PAGE_SIZE,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    return this.subscribeToMessageWindow(
+      'direct',
+      chatId,
+      pageSize,
+      (messageDoc) => this.toRequestDMMessage(messageDoc),
+      callback,
+      onError
     );
+  }
 
-    const unsubscribe = onSnapshot(q, (querySnapshot: QuerySnapshot<DocumentData>) => {
-      const messages: RequestDMMessage[] = [];
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        messages.push({
-          id: doc.id,
-          senderId: data.senderId,
-          senderName: data.senderName,
-          text: data.text,
-          timestamp: data.timestamp,
-          type: data.type || 'text'
-        } as RequestDMMessage);
-      });
-      callback(messages);
-    }, (error) => {
-      console.error('Error in request DM messages subscription:', error);
-    });
-
-    return unsubscribe;
+  // Load the direct chat messages older than a cursor
+  static async getOlderDirectChatMessages(
+    chatId: string,
+    cursor: MessageCursor,
+    pageSize: number = MESSAGE_PAGE_SIZE
+  ): Promise<Result<MessagePage<RequestDMMessage>>> {
+    return this.getMessagePageBefore(
+      'direct',
+      chatId,
+      cursor,
+      pageSize,
+      (messageDoc) => this.toRequestDMMessage(messageDoc)
+    );
   }
 
-  // Close a request DM (when request is resolved)
-  static async closeRequestDM(requestId: string): Promise<boolean> {
+  // Mark a direct chat as read for a participant
+  static async markDirectChatAsRead(chatId: string, userId: string): Promise<Result<void>> {
     try {
-      const requestDM = await this.getRequestDMByRequestId(requestId);
-      if (!requestDM) {
-        return true; // Already closed or doesn't exist
-      }
-
-      const dmRef = doc(db, 'requestDMs', requestDM.id);
-      await updateDoc(dmRef, {
-        isActive: false,
-        updatedAt: Timestamp.now()
+      await updateDoc(doc(db, 'directChats', chatId), {
+        [`participantDetails.${userId}.lastReadAt`]: Timestamp.now()
       });
-
-      return true;
+      return ok(undefined);
     } catch (error) {
-      console.error('Error closing request DM:', error);
-      return false;
+      return failFromError('Error marking direct chat as read', error);
     }
   }
 
@@ -665,17 +2059,32 @@ export class ChatService {
     fromUserId: string,
     fromUserName: string,
     fromUserEmail: string,
-    toUserId: string,
-    projectName: string,
-    message?: string,
-    projectId?: string
-  ): Promise<string | null> {
+    projectId: string,
+    message?: string
+  ): Promise<Result<string>> {
     try {
+      const projectResult = await ProjectService.getProjectById(projectId);
+      if (!projectResult.ok) {
+        return projectResult;
+      }
+      const project = projectResult.value;
+      if (project.ownerId === fromUserId) {
+        return fail('validation', "You can't request to join your own project.");
+      }
+      if (project.memberIds.includes(fromUserId)) {
+        return fail('already-exists', "You're already a member of this project.");
+      }
+      if (project.status !== 'open') {
+        return fail('validation', `"${project.title}" is no longer accepting requests.`);
+      }
+
       // Check if request already exists
-      const existingRequest = await this.getExistingRequest(fromUserId, toUserId, projectName);
-      if (existingRequest) {
-        console.log('Request already exists');
-        return existingRequest.id;
+      const existingRequest = await this.getExistingRequest(fromUserId, project.ownerId, projectId);
+      if (!existingRequest.ok) {
+        return existingRequest;
+      }
+      if (existingRequest.value) {
+        return fail('already-exists', 'You already have a pending request for this project.');
       }
 
       const requestsRef = collection(db, 'projectRequests');
@@ -685,9 +2094,9 @@ export class ChatService {
         fromUserId,
         fromUserName,
         fromUserEmail,
-        toUserId,
+        toUserId: project.ownerId,
         projectId,
-        projectName,
+        projectName: project.title,
         message,
         status: 'pending',
         type: 'join_project',
@@ -696,26 +2105,26 @@ export class ChatService {
       };
 
       const docRef = await addDoc(requestsRef, newRequest);
-      return docRef.id;
+      return ok(docRef.id);
     } catch (error) {
-      console.error('Error creating project request:', error);
-      return null;
+      return failFromError('Error creating project request', error);
     }
   }
 
-  // Check if a request already exists
+  // Check if a request already exists; filtering on both ends lets either
+  // the requester or the project owner run the query under the read rules
   private static async getExistingRequest(
     fromUserId: string,
     toUserId: string,
-    projectName: string
-  ): Promise<ProjectRequest | null> {
+    projectId: string
+  ): Promise<Result<ProjectRequest | null>> {
     try {
       const requestsRef = collection(db, 'projectRequests');
       const q = query(
         requestsRef,
         where('fromUserId', '==', fromUserId),
         where('toUserId', '==', toUserId),
-        where('projectName', '==', projectName),
+        where('projectId', '==', projectId),
         where('type', '==', 'join_project'),
         where('status', '==', 'pending')
       );
@@ -723,50 +2132,54 @@ export class ChatService {
       const querySnapshot = await getDocs(q);
       if (!querySnapshot.empty) {
         const doc = querySnapshot.docs[0];
-        return { id: doc.id, ...doc.data() } as ProjectRequest;
+        return ok({ id: doc.id, ...doc.data() } as ProjectRequest);
       }
-      return null;
+      return ok(null);
     } catch (error) {
-      console.error('Error checking existing request:', error);
-      return null;
+      return failFromError('Error checking existing request', error);
     }
   }
 
-  // Get all requests sent by a user (outgoing requests)
-  static async getUserSentRequests(userId: string): Promise<ProjectRequest[]> {
-    try {
-      const requestsRef = collection(db, 'projectRequests');
-      const q = query(
-        requestsRef,
-        where('fromUserId', '==', userId),
-        where('status', '==', 'pending'),
-        orderBy('createdAt', 'desc')
-      );
+  // Subscribe to real-time updates for user's sent requests
+  static subscribeToUserSentRequests(
+    userId: string,
+    callback: (requests: ProjectRequest[]) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    const requestsRef = collection(db, 'projectRequests');
+    const q = query(
+      requestsRef,
+      where('fromUserId', '==', userId),
+      where('status', '==', 'pending'),
+      where('type', '==', 'join_project'),
+      orderBy('createdAt', 'desc')
+    );
 
-      const querySnapshot = await getDocs(q);
+    const unsubscribe = onSnapshot(q, (querySnapshot: QuerySnapshot<DocumentData>) => {
       const requests: ProjectRequest[] = [];
-      
       querySnapshot.forEach((doc) => {
         requests.push({ id: doc.id, ...doc.data() } as ProjectRequest);
       });
+      callback(requests);
+    }, (error) => {
+      console.error('Error in sent requests subscription:', error);
+      onError?.(toServiceError(error));
+    });
 
-      return requests;
-    } catch (error) {
-      console.error('Error fetching user sent requests:', error);
-      return [];
-    }
+    return unsubscribe;
   }
 
-  // Subscribe to real-time updates for user's sent requests
-  static subscribeToUserSentRequests(
+  // Subscribe to every request the user has sent, whatever its status, newest first
+  static subscribeToUserRequestHistory(
     userId: string,
-    callback: (requests: ProjectRequest[]) => void
+    callback: (requests: ProjectRequest[]) => void,
+    onError?: (error: ServiceError) => void
   ): () => void {
     const requestsRef = collection(db, 'projectRequests');
     const q = query(
       requestsRef,
       where('fromUserId', '==', userId),
-      where('status', '==', 'pending'),
+      where('type', '==', 'join_project'),
       orderBy('createdAt', 'desc')
     );
 
@@ -777,45 +2190,94 @@ export class ChatService {
       });
       callback(requests);
     }, (error) => {
-      console.error('Error in sent requests subscription:', error);
+      console.error('Error in request history subscription:', error);
+      onError?.(toServiceError(error));
     });
 
     return unsubscribe;
   }
-  static async getUserRequests(userId: string): Promise<ProjectRequest[]> {
-    try {
-      const requestsRef = collection(db, 'projectRequests');
-      const q = query(
-        requestsRef,
-        where('toUserId', '==', userId),
-        where('status', '==', 'pending'),
-        orderBy('createdAt', 'desc')
-      );
 
-      const querySnapshot = await getDocs(q);
+  // Subscribe to every request sent to the user's projects, whatever its status, newest first
+  static subscribeToOwnerRequestHistory(
+    userId: string,
+    callback: (requests: ProjectRequest[]) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    const requestsRef = collection(db, 'projectRequests');
+    const q = query(
+      requestsRef,
+      where('toUserId', '==', userId),
+      where('type', '==', 'join_project'),
+      orderBy('createdAt', 'desc')
+    );
+
+    const unsubscribe = onSnapshot(q, (querySnapshot: QuerySnapshot<DocumentData>) => {
       const requests: ProjectRequest[] = [];
-      
       querySnapshot.forEach((doc) => {
         requests.push({ id: doc.id, ...doc.data() } as ProjectRequest);
       });
+      callback(requests);
+    }, (error) => {
+      console.error('Error in owner request history subscription:', error);
+      onError?.(toServiceError(error));
+    });
+
+    return unsubscribe;
+  }
+
+  // Subscribe to the owner's private notes, keyed by request ID
+  static subscribeToRequestNotes(
+    ownerId: string,
+    callback: (notes: Record<string, RequestNote>) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    const q = query(collection(db, 'requestNotes'), where('ownerId', '==', ownerId));
+
+    const unsubscribe = onSnapshot(q, (querySnapshot: QuerySnapshot<DocumentData>) => {
+      const notes: Record<string, RequestNote> = {};
+      querySnapshot.forEach((doc) => {
+        notes[doc.id] = doc.data() as RequestNote;
+      });
+      callback(notes);
+    }, (error) => {
+      console.error('Error in request notes subscription:', error);
+      onError?.(toServiceError(error));
+    });
+
+    return unsubscribe;
+  }
+
+  // Save or clear the owner's private note on a request
+  static async saveRequestNote(requestId: string, ownerId: string, note: string): Promise<Result<void>> {
+    try {
+      const noteRef = doc(db, 'requestNotes', requestId);
+      const trimmed = note.trim();
+
+      if (!trimmed) {
+        await deleteDoc(noteRef);
+        return ok(undefined);
+      }
 
-      return requests;
+      const requestNote: RequestNote = { requestId, ownerId, note: trimmed, updatedAt: Timestamp.now() };
+      await setDoc(noteRef, requestNote);
+      return ok(undefined);
     } catch (error) {
-      console.error('Error fetching user requests:', error);
-      return [];
+      return failFromError('Error saving request note', error);
     }
   }
 
   // Subscribe to real-time updates for user requests
   static subscribeToUserRequests(
     userId: string,
-    callback: (requests: ProjectRequest[]) => void
+    callback: (requests: ProjectRequest[]) => void,
+    onError?: (error: ServiceError) => void
   ): () => void {
     const requestsRef = collection(db, 'projectRequests');
     const q = query(
       requestsRef,
       where('toUserId', '==', userId),
       where('status', '==', 'pending'),
+      where('type', '==', 'join_project'),
       orderBy('createdAt', 'desc')
     );
 
@@ -827,186 +2289,469 @@ export class ChatService {
       callback(requests);
     }, (error) => {
       console.error('Error in requests subscription:', error);
+      onError?.(toServiceError(error));
     });
 
     return unsubscribe;
   }
 
-  // Accept a project request
-  static async acceptProjectRequest(requestId: string): Promise<boolean> {
+  // The person who joins the project if a request is accepted
+  private static getRequestCandidate(request: ProjectRequest): { userId: string; name: string; email: string } {
+    return request.type === 'invite'
+      ? { userId: request.toUserId, name: request.toUserName || 'Member', email: request.toUserEmail || '' }
+      : { userId: request.fromUserId, name: request.fromUserName, email: request.fromUserEmail };
+  }
+
+  // Accept a join request (as the owner) or an invite (as the invitee). The
+  // request, project membership, group chat membership and request DM are all
+  // updated in one transaction, which also re-checks that the request is still
+  // pending and the project has room.
+  static async acceptProjectRequest(requestId: string): Promise<RequestDecisionResult> {
     try {
       const requestRef = doc(db, 'projectRequests', requestId);
       const requestDoc = await getDoc(requestRef);
-      
+
       if (!requestDoc.exists()) {
-        console.error('Request not found');
-        return false;
+        return { outcome: 'not_found', requestId };
       }
 
       const request = { id: requestDoc.id, ...requestDoc.data() } as ProjectRequest;
+      const projectResult = await ProjectService.getProjectById(request.projectId);
+      if (!projectResult.ok) {
+        return projectResult.error.code === 'not-found'
+          ? { outcome: 'project_closed', requestId, projectStatus: null }
+          : { outcome: 'failed', requestId, error: projectResult.error };
+      }
+      const project = projectResult.value;
 
-      // Update request status
-      await updateDoc(requestRef, {
-        status: 'accepted',
-        updatedAt: Timestamp.now()
-      });
+      // Queries can't run inside a transaction, so find the DM and chat up front
+      const requestDM = await this.getRequestDMByRequestId(requestId, request.toUserId);
+      if (!requestDM.ok) {
+        return { outcome: 'failed', requestId, error: requestDM.error };
+      }
 
-      // Close any associated request DM
-      await this.closeRequestDM(requestId);
+      const groupChat = await this.ensureProjectGroupChat(project);
+      if (!groupChat.ok) {
+        return { outcome: 'failed', requestId, error: groupChat.error };
+      }
+      const groupChatId = groupChat.value;
 
-      // Find or create group chat for the project
-      let groupChat = await this.getGroupChatByProjectName(request.projectName);
-      
-      if (!groupChat) {
-        console.log(`No group chat found for project: ${request.projectName}. Creating one...`);
-        
-        const projectOwner = await this.getProjectOwnerDetails(request.toUserId, request.projectName);
-        
-        if (projectOwner) {
-          const groupChatId = await this.createGroupChat(
-            request.projectName,
-            `Group chat for ${request.projectName}`,
-            request.toUserId,
-            projectOwner.displayName,
-            projectOwner.email
-          );
-          
-          if (groupChatId) {
-            console.log(`Created new group chat ${groupChatId} for project ${request.projectName}`);
-            groupChat = await this.getGroupChatByProjectName(request.projectName);
-          }
+      return await runTransaction(db, async (transaction): Promise<RequestDecisionResult> => {
+        // All reads must happen before any writes
+        const currentRequestDoc = await transaction.get(requestRef);
+        if (!currentRequestDoc.exists()) {
+          return { outcome: 'not_found', requestId };
         }
-      }
-      
-      if (groupChat) {
-        const success = await this.addUserToGroupChat(
-          groupChat.id,
-          request.fromUserId,
-          request.fromUserName,
-          request.fromUserEmail
+
+        const currentRequest = { id: currentRequestDoc.id, ...currentRequestDoc.data() } as ProjectRequest;
+        if (currentRequest.status !== 'pending') {
+          return { outcome: 'already_resolved', requestId, status: currentRequest.status };
+        }
+
+        const projectDoc = await transaction.get(doc(db, 'projects', currentRequest.projectId));
+        if (!projectDoc.exists()) {
+          return { outcome: 'project_closed', requestId, projectStatus: null };
+        }
+
+        const currentProject = { id: projectDoc.id, ...projectDoc.data() } as Project;
+        if (currentProject.status === 'full' || ProjectService.isAtCapacity(currentProject)) {
+          return { outcome: 'project_full', requestId };
+        }
+        if (currentProject.status !== 'open') {
+          return { outcome: 'project_closed', requestId, projectStatus: currentProject.status };
+        }
+
+        const chatRef = doc(db, 'groupChats', groupChatId);
+        const chatDoc = await transaction.get(chatRef);
+        if (!chatDoc.exists()) {
+          throw new Error(`Group chat not found: ${groupChatId}`);
+        }
+        if (currentRequest.type === 'invite' && !(chatDoc.data() as FirebaseGroupChat).settings?.allowInvites) {
+          return { outcome: 'invites_disabled', requestId };
+        }
+
+        const dmRef = requestDM.value ? doc(db, 'requestDMs', requestDM.value.id) : null;
+        const dmDoc = dmRef ? await transaction.get(dmRef) : null;
+
+        const now = Timestamp.now();
+        transaction.update(requestRef, {
+          status: 'accepted',
+          updatedAt: now,
+          respondedAt: now
+        });
+
+        const candidate = this.getRequestCandidate(currentRequest);
+        transaction.update(chatRef, {
+          [`members.${candidate.userId}`]: this.buildChatMember(
+            candidate.userId,
+            candidate.name,
+            candidate.email,
+            'member'
+          ),
+          memberIds: arrayUnion(candidate.userId),
+          updatedAt: now
+        });
+
+        const projectStatus = ProjectService.addMemberInTransaction(
+          transaction,
+          currentProject,
+          candidate.userId
         );
-        
-        if (!success) {
-          console.error('Failed to add user to group chat');
-          return false;
+        this.addSystemMessageInTransaction(
+          transaction,
+          groupChatId,
+          currentRequest.type === 'invite'
+            ? `${candidate.name} joined at ${currentRequest.fromUserName}'s invitation.`
+            : `${candidate.name} joined the project.`
+        );
+
+        const closedDMId = dmRef && dmDoc?.exists() && dmDoc.data().isActive ? dmRef.id : null;
+        if (dmRef && closedDMId) {
+          transaction.update(dmRef, {
+            isActive: false,
+            updatedAt: now
+          });
         }
-      } else {
-        console.error(`Failed to create or find group chat for project: ${request.projectName}`);
-        return false;
-      }
 
-      return true;
+        return {
+          outcome: 'accepted',
+          requestId,
+          projectId: currentProject.id,
+          groupChatId,
+          projectStatus,
+          closedDMId
+        };
+      });
     } catch (error) {
       console.error('Error accepting project request:', error);
-      return false;
+      return { outcome: 'failed', requestId, error: toServiceError(error) };
+    }
+  }
+
+  // Make sure a project has a group chat, creating and linking one if needed
+  private static async ensureProjectGroupChat(project: Project): Promise<Result<string>> {
+    if (project.groupChatId) {
+      return ok(project.groupChatId);
+    }
+
+    const existingChat = await this.getGroupChatByProjectId(project.id, project.ownerId);
+    if (!existingChat.ok) {
+      return existingChat;
+    }
+
+    const groupChatId = existingChat.value
+      ? ok(existingChat.value.id)
+      : await this.createGroupChat(
+          project.id,
+          project.title,
+          `Group chat for ${project.title}`,
+          project.ownerId,
+          project.ownerName,
+          project.ownerEmail
+        );
+
+    if (!groupChatId.ok) {
+      return groupChatId;
     }
+    const linked = await ProjectService.setProjectGroupChat(project.id, groupChatId.value);
+    return linked.ok ? groupChatId : linked;
   }
 
-  // Helper method to get project owner details
+  // The project owner's name and email, from their profile or else the project
   static async getProjectOwnerDetails(
-    ownerId: string, 
-    projectName: string
-  ): Promise<{ displayName: string; email: string } | null> {
+    ownerId: string,
+    projectId: string
+  ): Promise<Result<{ displayName: string; email: string }>> {
     try {
-      // First, try to get details from the users collection
-      const userRef = doc(db, 'users', ownerId);
-      const userDoc = await getDoc(userRef);
-      
+      const userDoc = await getDoc(doc(db, 'users', ownerId));
       if (userDoc.exists()) {
         const userData = userDoc.data();
-        return {
-          displayName: userData.displayName || userData.username || 'Anonymous',
+        return ok({
+          displayName: userData.name || userData.email || 'Project Owner',
           email: userData.email || ''
-        };
+        });
       }
-      
-      // Fallback: Get details from the project post
-      const postsRef = collection(db, 'posts');
-      const q = query(
-        postsRef,
-        where('uid', '==', ownerId),
-        where('title', '==', projectName),
-        limit(1)
-      );
-      
-      const querySnapshot = await getDocs(q);
-      if (!querySnapshot.empty) {
-        const postData = querySnapshot.docs[0].data();
-        return {
-          displayName: postData.username || 'Anonymous',
-          email: ''
-        };
+
+      const project = await ProjectService.getProjectById(projectId);
+      if (!project.ok) {
+        return project;
       }
-      
-      return {
-        displayName: 'Project Owner',
-        email: ''
-      };
+      return ok(project.value.ownerId === ownerId
+        ? { displayName: project.value.ownerName || 'Project Owner', email: project.value.ownerEmail || '' }
+        : { displayName: 'Project Owner', email: '' });
     } catch (error) {
-      console.error('Error fetching project owner details:', error);
-      return {
-        displayName: 'Project Owner',
-        email: ''
-      };
+      return failFromError('Error fetching project owner details', error);
     }
   }
 
-  // Decline a project request
-  static async declineProjectRequest(requestId: string): Promise<boolean> {
+  // Decline a project request, closing its DM in the same transaction. An
+  // optional reason is shared with the requester; a private note is not.
+  static async declineProjectRequest(
+    requestId: string,
+    options: DeclineOptions = {}
+  ): Promise<RequestDecisionResult> {
+    const reason = options.reason?.trim();
+    const privateNote = options.privateNote?.trim();
+
     try {
       const requestRef = doc(db, 'projectRequests', requestId);
-      await updateDoc(requestRef, {
-        status: 'declined',
-        updatedAt: Timestamp.now()
-      });
+      const requestDoc = await getDoc(requestRef);
 
-      // Close any associated request DM
-      await this.closeRequestDM(requestId);
-      
-      return true;
+      if (!requestDoc.exists()) {
+        return { outcome: 'not_found', requestId };
+      }
+
+      const request = requestDoc.data() as Omit<ProjectRequest, 'id'>;
+      const requestDM = await this.getRequestDMByRequestId(requestId, request.toUserId);
+      if (!requestDM.ok) {
+        return { outcome: 'failed', requestId, error: requestDM.error };
+      }
+
+      return await runTransaction(db, async (transaction): Promise<RequestDecisionResult> => {
+        const currentRequestDoc = await transaction.get(requestRef);
+        if (!currentRequestDoc.exists()) {
+          return { outcome: 'not_found', requestId };
+        }
+
+        const currentRequest = currentRequestDoc.data() as Omit<ProjectRequest, 'id'>;
+        if (currentRequest.status !== 'pending') {
+          return { outcome: 'already_resolved', requestId, status: currentRequest.status };
+        }
+
+        const dmRef = requestDM.value ? doc(db, 'requestDMs', requestDM.value.id) : null;
+        const dmDoc = dmRef ? await transaction.get(dmRef) : null;
+
+        const now = Timestamp.now();
+        transaction.update(requestRef, {
+          status: 'declined',
+          updatedAt: now,
+          respondedAt: now,
+          ...(reason ? { declineReason: reason } : {})
+        });
+
+        if (privateNote) {
+          const note: RequestNote = { requestId, ownerId: currentRequest.toUserId, note: privateNote, updatedAt: now };
+          transaction.set(doc(db, 'requestNotes', requestId), note);
+        }
+
+        const closedDMId = dmRef && dmDoc?.exists() && dmDoc.data().isActive ? dmRef.id : null;
+        if (dmRef && closedDMId) {
+          if (reason) {
+            const reasonMessage: Omit<RequestDMMessage, 'id'> = {
+              senderId: 'system',
+              senderName: 'System',
+              text: `This request was declined: ${reason}`,
+              timestamp: now,
+              type: 'system'
+            };
+            transaction.set(doc(collection(dmRef, 'messages')), reasonMessage);
+          }
+          transaction.update(dmRef, {
+            isActive: false,
+            updatedAt: now
+          });
+        }
+
+        return { outcome: 'declined', requestId, closedDMId };
+      });
     } catch (error) {
       console.error('Error declining project request:', error);
-      return false;
+      return { outcome: 'failed', requestId, error: toServiceError(error) };
     }
   }
 
-  // Add user to an existing group chat
-  static async addUserToGroupChat(
-    chatId: string,
-    userId: string,
-    userName: string,
-    userEmail: string
-  ): Promise<boolean> {
+  // Withdraw your own pending request, closing its DM in the same transaction
+  static async withdrawProjectRequest(requestId: string, userId: string): Promise<Result<void>> {
     try {
-      const chatRef = doc(db, 'groupChats', chatId);
-      const memberData: FirebaseChatMember = {
-        userId,
-        displayName: userName,
-        email: userEmail,
-        joinedAt: Timestamp.now(),
-        role: 'member'
-      };
+      const requestRef = doc(db, 'projectRequests', requestId);
+      const requestDM = await this.getRequestDMByRequestId(requestId, userId);
+      if (!requestDM.ok) {
+        return requestDM;
+      }
 
-      await updateDoc(chatRef, {
-        [`members.${userId}`]: memberData,
-        memberIds: arrayUnion(userId),
-        updatedAt: Timestamp.now()
+      return await runTransaction(db, async (transaction): Promise<Result<void>> => {
+        const requestDoc = await transaction.get(requestRef);
+        if (!requestDoc.exists()) {
+          return fail('not-found', 'This request no longer exists.');
+        }
+
+        const request = requestDoc.data() as Omit<ProjectRequest, 'id'>;
+        if (request.fromUserId !== userId) {
+          return fail('permission-denied', 'You can only withdraw your own requests.');
+        }
+        if (request.status !== 'pending') {
+          return fail('validation', `This request was already ${request.status}.`);
+        }
+
+        const dmRef = requestDM.value ? doc(db, 'requestDMs', requestDM.value.id) : null;
+        const dmDoc = dmRef ? await transaction.get(dmRef) : null;
+
+        const now = Timestamp.now();
+        transaction.update(requestRef, {
+          status: 'withdrawn',
+          updatedAt: now,
+          respondedAt: now
+        });
+
+        if (dmRef && dmDoc?.exists() && dmDoc.data().isActive) {
+          transaction.update(dmRef, {
+            isActive: false,
+            updatedAt: now
+          });
+        }
+
+        return ok(undefined);
       });
+    } catch (error) {
+      return failFromError('Error withdrawing project request', error);
+    }
+  }
+
+  // ============ INVITE FUNCTIONS ============
+
+  // The invite doc ID for a user and project. Keying by the pair means an
+  // owner can't stack invites, and lets the rules find the invite when the
+  // invitee adds themselves to the project and its group chat.
+  static getInviteId(projectId: string, userId: string): string {
+    return `${projectId}_${userId}`;
+  }
+
+  // Invite someone to join a project. Re-inviting replaces an invite that was
+  // declined or withdrawn.
+  static async inviteToProject(
+    owner: Omit<DMParticipant, 'lastReadAt'>,
+    invitee: Omit<DMParticipant, 'lastReadAt'>,
+    projectId: string,
+    message?: string
+  ): Promise<Result<string>> {
+    try {
+      const projectResult = await ProjectService.getProjectById(projectId);
+      if (!projectResult.ok) {
+        return projectResult;
+      }
+      const project = projectResult.value;
+      if (project.ownerId !== owner.userId) {
+        return fail('permission-denied', 'Only the project owner can send invites.');
+      }
+      if (project.memberIds.includes(invitee.userId)) {
+        return fail('already-exists', `${invitee.displayName} is already on this project.`);
+      }
+      if (project.status !== 'open') {
+        return fail('validation', `"${project.title}" is no longer accepting members.`);
+      }
+
+      // The invitee will join through the group chat, so it has to exist and allow it
+      const groupChatId = await this.ensureProjectGroupChat(project);
+      if (!groupChatId.ok) {
+        return groupChatId;
+      }
+      const groupChat = await this.getGroupChatById(groupChatId.value);
+      if (!groupChat.ok) {
+        return groupChat;
+      }
+      if (!groupChat.value.settings?.allowInvites) {
+        return fail('validation', `Invites are turned off for "${project.title}".`);
+      }
+
+      const existingRequest = await this.getExistingRequest(invitee.userId, owner.userId, projectId);
+      if (!existingRequest.ok) {
+        return existingRequest;
+      }
+      if (existingRequest.value) {
+        return fail('already-exists', `${invitee.displayName} already asked to join. Accept their request instead.`);
+      }
 
-      return true;
+      const inviteId = this.getInviteId(projectId, invitee.userId);
+      const inviteRef = doc(db, 'projectRequests', inviteId);
+
+      return await runTransaction(db, async (transaction): Promise<Result<string>> => {
+        const inviteDoc = await transaction.get(inviteRef);
+        if (inviteDoc.exists() && inviteDoc.data().status === 'pending') {
+          return fail('already-exists', `${invitee.displayName} already has an invite to this project.`);
+        }
+
+        const now = Timestamp.now();
+        const invite: Omit<ProjectRequest, 'id'> = {
+          fromUserId: owner.userId,
+          fromUserName: owner.displayName,
+          fromUserEmail: owner.email,
+          toUserId: invitee.userId,
+          toUserName: invitee.displayName,
+          toUserEmail: invitee.email,
+          projectId,
+          projectName: project.title,
+          ...(message?.trim() ? { message: message.trim() } : {}),
+          status: 'pending',
+          type: 'invite',
+          createdAt: now,
+          updatedAt: now
+        };
+        transaction.set(inviteRef, invite);
+
+        return ok(inviteId);
+      });
     } catch (error) {
-      console.error('Error adding user to group chat:', error);
-      return false;
+      return failFromError('Error sending project invite', error);
     }
   }
 
-  // Get group chat by project name (for finding existing chats)
-  static async getGroupChatByProjectName(projectName: string): Promise<FirebaseGroupChat | null> {
+  // Subscribe to the invites the user has received, whatever their status, newest first
+  static subscribeToUserInvites(
+    userId: string,
+    callback: (invites: ProjectRequest[]) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    return this.subscribeToInvites('toUserId', userId, callback, onError);
+  }
+
+  // Subscribe to the invites the user has sent as a project owner, newest first
+  static subscribeToSentInvites(
+    userId: string,
+    callback: (invites: ProjectRequest[]) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    return this.subscribeToInvites('fromUserId', userId, callback, onError);
+  }
+
+  private static subscribeToInvites(
+    field: 'fromUserId' | 'toUserId',
+    userId: string,
+    callback: (invites: ProjectRequest[]) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    const q = query(
+      collection(db, 'projectRequests'),
+      where(field, '==', userId),
+      where('type', '==', 'invite'),
+      orderBy('createdAt', 'desc')
+    );
+
+    const unsubscribe = onSnapshot(q, (querySnapshot: QuerySnapshot<DocumentData>) => {
+      const invites: ProjectRequest[] = [];
+      querySnapshot.forEach((doc) => {
+        invites.push({ id: doc.id, ...doc.data() } as ProjectRequest);
+      });
+      callback(invites);
+    }, (error) => {
+      console.error('Error in invites subscription:', error);
+      onError?.(toServiceError(error));
+    });
+
+    return unsubscribe;
+  }
+
+  // Get group chat by project ID (for finding existing chats). Only members can
+  // read a group chat, so the query is scoped to one of them.
+  static async getGroupChatByProjectId(
+    projectId: string,
+    memberId: string
+  ): Promise<Result<FirebaseGroupChat | null>> {
     try {
       const chatsRef = collection(db, 'groupChats');
       const q = query(
         chatsRef,
-        where('projectName', '==', projectName),
+        where('memberIds', 'array-contains', memberId),
+        where('projectId', '==', projectId),
         where('isActive', '==', true),
         limit(1)
       );
@@ -1014,12 +2759,11 @@ export class ChatService {
       const querySnapshot = await getDocs(q);
       if (!querySnapshot.empty) {
         const doc = querySnapshot.docs[0];
-        return { id: doc.id, ...doc.data() } as FirebaseGroupChat;
+        return ok({ id: doc.id, ...doc.data() } as FirebaseGroupChat);
       }
-      return null;
+      return ok(null);
     } catch (error) {
-      console.error('Error finding group chat by project name:', error);
-      return null;
+      return failFromError('Error finding group chat by project ID', error);
     }
   }
 
@@ -1032,6 +2776,7 @@ export class ChatService {
       avatar: request.fromUserAvatar || null,
       message: request.message,
       fromUserId: request.fromUserId,
+      projectId: request.projectId,
       timestamp: request.createdAt.toDate(),
       hasDM: request.hasDM || false
     };
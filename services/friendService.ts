@@ -0,0 +1,297 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  query,
+  where,
+  Timestamp,
+  DocumentData,
+  QuerySnapshot,
+  runTransaction,
+  increment
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { fail, failFromError, ok, Result, ServiceError, toServiceError } from './serviceResult';
+
+// Type definitions
+export type FriendshipStatus = 'pending' | 'accepted';
+
+// Snapshot of a user's public profile, kept on the friendship so lists don't need extra reads
+export interface FriendProfile {
+  userId: string;
+  displayName: string;
+  email: string;
+  photoURL?: string | null;
+}
+
+export interface Friendship {
+  id: string; // Both user IDs, sorted and joined, so each pair has exactly one doc
+  userIds: string[]; // Sorted [userA, userB]
+  requesterId: string;
+  addresseeId: string;
+  profiles: Record<string, FriendProfile>;
+  status: FriendshipStatus;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  acceptedAt?: Timestamp;
+}
+
+// A friendship seen from one side
+export interface Friend extends FriendProfile {
+  friendshipId: string;
+  status: FriendshipStatus;
+  direction: 'incoming' | 'outgoing'; // Who sent the request
+  since: Timestamp; // When the friendship was accepted, or the request sent
+}
+
+export class FriendService {
+  // The friendship doc ID for a pair of users, independent of who asked first
+  static getFriendshipId(userA: string, userB: string): string {
+    return [userA, userB].sort().join('_');
+  }
+
+  // Describe a friendship from the given user's point of view
+  static toFriend(friendship: Friendship, userId: string): Friend {
+    const otherId = friendship.userIds.find(id => id !== userId) || friendship.addresseeId;
+
+    return {
+      ...friendship.profiles[otherId],
+      userId: otherId,
+      friendshipId: friendship.id,
+      status: friendship.status,
+      direction: friendship.requesterId === userId ? 'outgoing' : 'incoming',
+      since: friendship.acceptedAt || friendship.createdAt
+    };
+  }
+
+  // Look up someone to befriend by their email address
+  static async findUserByEmail(email: string): Promise<Result<FriendProfile | null>> {
+    try {
+      const q = query(collection(db, 'users'), where('email', '==', email.trim().toLowerCase()), limit(1));
+      const querySnapshot = await getDocs(q);
+      if (querySnapshot.empty) {
+        return ok(null);
+      }
+
+      return ok(this.toProfile(querySnapshot.docs[0].id, querySnapshot.docs[0].data()));
+    } catch (error) {
+      return failFromError('Error finding user by email', error);
+    }
+  }
+
+  // A user's public profile, as stored on friendships
+  static async getProfile(userId: string): Promise<Result<FriendProfile>> {
+    try {
+      const userDoc = await getDoc(doc(db, 'users', userId));
+      if (!userDoc.exists()) {
+        return fail('not-found', 'This user no longer exists.');
+      }
+      return ok(this.toProfile(userDoc.id, userDoc.data()));
+    } catch (error) {
+      return failFromError('Error fetching user profile', error);
+    }
+  }
+
+  private static toProfile(userId: string, user: DocumentData): FriendProfile {
+    return {
+      userId,
+      displayName: user.name || user.email,
+      email: user.email,
+      photoURL: user.photoURL || null
+    };
+  }
+
+  // ============ FRIEND REQUESTS ============
+
+  // Send a friend request. If the other user already asked us, accept theirs instead.
+  static async sendFriendRequest(from: FriendProfile, to: FriendProfile): Promise<Result<string>> {
+    if (from.userId === to.userId) {
+      return fail('validation', "You can't add yourself as a friend.");
+    }
+
+    const friendshipId = this.getFriendshipId(from.userId, to.userId);
+    const friendshipRef = doc(db, 'friendships', friendshipId);
+
+    try {
+      const outcome = await runTransaction(db, async (transaction): Promise<Result<string> | 'accept'> => {
+        const friendshipDoc = await transaction.get(friendshipRef);
+
+        if (friendshipDoc.exists()) {
+          const existing = friendshipDoc.data() as Omit<Friendship, 'id'>;
+          if (existing.status === 'accepted') {
+            return fail('already-exists', `You and ${to.displayName} are already friends.`);
+          }
+          if (existing.requesterId === from.userId) {
+            return fail('already-exists', 'Friend request already sent.');
+          }
+          return 'accept';
+        }
+
+        const now = Timestamp.now();
+        const friendship: Omit<Friendship, 'id'> = {
+          userIds: [from.userId, to.userId].sort(),
+          requesterId: from.userId,
+          addresseeId: to.userId,
+          profiles: { [from.userId]: from, [to.userId]: to },
+          status: 'pending',
+          createdAt: now,
+          updatedAt: now
+        };
+        transaction.set(friendshipRef, friendship);
+
+        return ok(friendshipId);
+      });
+
+      if (outcome !== 'accept') {
+        return outcome;
+      }
+
+      const accepted = await this.acceptFriendRequest(friendshipId, from.userId);
+      return accepted.ok ? ok(friendshipId) : accepted;
+    } catch (error) {
+      return failFromError('Error sending friend request', error);
+    }
+  }
+
+  // Accept a request sent to the user, bumping both users' friendsCount in the same transaction
+  static async acceptFriendRequest(friendshipId: string, userId: string): Promise<Result<void>> {
+    const friendshipRef = doc(db, 'friendships', friendshipId);
+
+    try {
+      return await runTransaction(db, async (transaction): Promise<Result<void>> => {
+        const friendshipDoc = await transaction.get(friendshipRef);
+        if (!friendshipDoc.exists()) {
+          return fail('not-found', 'This friend request was withdrawn.');
+        }
+
+        const friendship = friendshipDoc.data() as Omit<Friendship, 'id'>;
+        if (friendship.status === 'accepted') {
+          return fail('already-exists', "You're already friends.");
+        }
+        if (friendship.addresseeId !== userId) {
+          return fail('permission-denied', 'Only the person you asked can accept this request.');
+        }
+
+        const now = Timestamp.now();
+        transaction.update(friendshipRef, {
+          status: 'accepted',
+          updatedAt: now,
+          acceptedAt: now
+        });
+        friendship.userIds.forEach(id => {
+          transaction.update(doc(db, 'users', id), { friendsCount: increment(1) });
+        });
+
+        return ok(undefined);
+      });
+    } catch (error) {
+      return failFromError('Error accepting friend request', error);
+    }
+  }
+
+  // Decline a request sent to the user, or cancel one they sent
+  static async declineFriendRequest(friendshipId: string, userId: string): Promise<Result<void>> {
+    const friendshipRef = doc(db, 'friendships', friendshipId);
+
+    try {
+      return await runTransaction(db, async (transaction): Promise<Result<void>> => {
+        const friendshipDoc = await transaction.get(friendshipRef);
+        if (!friendshipDoc.exists()) {
+          return ok(undefined); // Already declined or cancelled
+        }
+
+        const friendship = friendshipDoc.data() as Omit<Friendship, 'id'>;
+        if (!friendship.userIds.includes(userId)) {
+          return fail('permission-denied');
+        }
+        if (friendship.status !== 'pending') {
+          return fail('validation', "You're already friends. Remove them as a friend instead.");
+        }
+
+        transaction.delete(friendshipRef);
+        return ok(undefined);
+      });
+    } catch (error) {
+      return failFromError('Error declining friend request', error);
+    }
+  }
+
+  // Remove an accepted friend, dropping both users' friendsCount in the same transaction
+  static async removeFriend(friendshipId: string, userId: string): Promise<Result<void>> {
+    const friendshipRef = doc(db, 'friendships', friendshipId);
+
+    try {
+      return await runTransaction(db, async (transaction): Promise<Result<void>> => {
+        const friendshipDoc = await transaction.get(friendshipRef);
+        if (!friendshipDoc.exists()) {
+          return ok(undefined); // Already removed
+        }
+
+        const friendship = friendshipDoc.data() as Omit<Friendship, 'id'>;
+        if (!friendship.userIds.includes(userId)) {
+          return fail('permission-denied');
+        }
+        if (friendship.status !== 'accepted') {
+          return fail('validation', "You aren't friends yet.");
+        }
+
+        transaction.delete(friendshipRef);
+        friendship.userIds.forEach(id => {
+          transaction.update(doc(db, 'users', id), { friendsCount: increment(-1) });
+        });
+
+        return ok(undefined);
+      });
+    } catch (error) {
+      return failFromError('Error removing friend', error);
+    }
+  }
+
+  // ============ SUBSCRIPTIONS ============
+
+  // Subscribe to all of the user's friendships, accepted and pending
+  static subscribeToFriendships(
+    userId: string,
+    callback: (friends: Friend[]) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    const q = query(collection(db, 'friendships'), where('userIds', 'array-contains', userId));
+
+    const unsubscribe = onSnapshot(q, (querySnapshot: QuerySnapshot<DocumentData>) => {
+      const friends: Friend[] = [];
+      querySnapshot.forEach((doc) => {
+        friends.push(this.toFriend({ id: doc.id, ...doc.data() } as Friendship, userId));
+      });
+      callback(friends);
+    }, (error) => {
+      console.error('Error in friendships subscription:', error);
+      onError?.(toServiceError(error));
+    });
+
+    return unsubscribe;
+  }
+
+  // Subscribe to the friendship between two users, seen from userId's side (null if none)
+  static subscribeToFriendship(
+    userId: string,
+    otherUserId: string,
+    callback: (friend: Friend | null) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    const friendshipRef = doc(db, 'friendships', this.getFriendshipId(userId, otherUserId));
+
+    const unsubscribe = onSnapshot(friendshipRef, (friendshipDoc) => {
+      callback(friendshipDoc.exists()
+        ? this.toFriend({ id: friendshipDoc.id, ...friendshipDoc.data() } as Friendship, userId)
+        : null);
+    }, (error) => {
+      console.error('Error in friendship subscription:', error);
+      onError?.(toServiceError(error));
+    });
+
+    return unsubscribe;
+  }
+}
@@ -0,0 +1,117 @@
+import {
+  collection,
+  doc,
+  documentId,
+  onSnapshot,
+  query,
+  setDoc,
+  where,
+  Timestamp,
+  DocumentData,
+  QuerySnapshot
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { failFromError, ok, Result } from './serviceResult';
+
+// Type definitions
+export interface PresenceDoc {
+  state: 'online' | 'offline';
+  lastSeen: Timestamp; // Last time the app was in the foreground
+}
+
+export interface UserPresence {
+  userId: string;
+  online: boolean;
+  lastSeen: Timestamp | null; // Null if the user has never reported presence
+}
+
+// While foregrounded the app refreshes lastSeen this often
+export const PRESENCE_HEARTBEAT_MS = 60 * 1000;
+
+// An 'online' user who hasn't refreshed within this window crashed or lost connection
+const PRESENCE_STALE_MS = 2.5 * PRESENCE_HEARTBEAT_MS;
+
+// Firestore caps 'in' queries at 30 values
+const PRESENCE_QUERY_CHUNK = 30;
+
+export class PresenceService {
+  // Record that the user has the app in the foreground
+  static async setOnline(userId: string): Promise<Result<void>> {
+    return this.writePresence(userId, 'online');
+  }
+
+  // Record that the user has left the app
+  static async setOffline(userId: string): Promise<Result<void>> {
+    return this.writePresence(userId, 'offline');
+  }
+
+  private static async writePresence(userId: string, state: PresenceDoc['state']): Promise<Result<void>> {
+    try {
+      const presence: PresenceDoc = { state, lastSeen: Timestamp.now() };
+      await setDoc(doc(db, 'presence', userId), presence);
+      return ok(undefined);
+    } catch (error) {
+      return failFromError(`Error setting presence to ${state}`, error);
+    }
+  }
+
+  // Resolve a presence doc into whether the user is online right now
+  static toUserPresence(userId: string, presence: PresenceDoc | undefined, now: number = Date.now()): UserPresence {
+    if (!presence) {
+      return { userId, online: false, lastSeen: null };
+    }
+
+    const fresh = now - presence.lastSeen.toMillis() < PRESENCE_STALE_MS;
+    return { userId, online: presence.state === 'online' && fresh, lastSeen: presence.lastSeen };
+  }
+
+  // "Online", "Last seen 5m ago", ...
+  static describe(presence: UserPresence | undefined, now: number = Date.now()): string {
+    if (!presence?.lastSeen) return 'Offline';
+    if (presence.online) return 'Online';
+
+    const minutes = Math.floor((now - presence.lastSeen.toMillis()) / 60000);
+    if (minutes < 1) return 'Last seen just now';
+    if (minutes < 60) return `Last seen ${minutes}m ago`;
+
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `Last seen ${hours}h ago`;
+
+    return `Last seen ${presence.lastSeen.toDate().toLocaleDateString()}`;
+  }
+
+  // Subscribe to the raw presence docs of a set of users, keyed by user ID
+  static subscribeToPresence(
+    userIds: string[],
+    callback: (presence: Record<string, PresenceDoc>) => void
+  ): () => void {
+    const ids = Array.from(new Set(userIds)).filter(Boolean);
+    if (ids.length === 0) {
+      callback({});
+      return () => {};
+    }
+
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += PRESENCE_QUERY_CHUNK) {
+      chunks.push(ids.slice(i, i + PRESENCE_QUERY_CHUNK));
+    }
+
+    // Each chunk reports separately; merge them into one map
+    const byChunk: Record<string, PresenceDoc>[] = chunks.map(() => ({}));
+    const unsubscribes = chunks.map((chunk, index) => {
+      const q = query(collection(db, 'presence'), where(documentId(), 'in', chunk));
+      return onSnapshot(q, (querySnapshot: QuerySnapshot<DocumentData>) => {
+        const presence: Record<string, PresenceDoc> = {};
+        querySnapshot.forEach((doc) => {
+          presence[doc.id] = doc.data() as PresenceDoc;
+        });
+        byChunk[index] = presence;
+        callback(Object.assign({}, ...byChunk));
+      }, (error) => {
+        console.error('Error in presence subscription:', error);
+      });
+    });
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+}
@@ -0,0 +1,376 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  onSnapshot,
+  query,
+  where,
+  orderBy,
+  Timestamp,
+  DocumentData,
+  QuerySnapshot,
+  updateDoc,
+  getDoc,
+  writeBatch,
+  serverTimestamp,
+  Transaction
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { ChatService } from './chatService';
+import { fail, failFromError, ok, Result, ServiceError, toServiceError } from './serviceResult';
+
+// Type definitions
+export type ProjectStatus = 'open' | 'full' | 'in_progress' | 'finished' | 'archived';
+
+// Status changes the project owner may make from each state
+export const PROJECT_STATUS_TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  open: ['full', 'in_progress', 'finished', 'archived'],
+  full: ['open', 'in_progress', 'finished', 'archived'],
+  in_progress: ['open', 'finished', 'archived'],
+  finished: ['in_progress', 'archived'],
+  archived: []
+};
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  open: 'Open',
+  full: 'Team Full',
+  in_progress: 'In Progress',
+  finished: 'Finished',
+  archived: 'Archived'
+};
+
+// Statuses whose group chat stays readable but no longer accepts messages
+const READ_ONLY_STATUSES: ProjectStatus[] = ['finished', 'archived'];
+
+export interface Project {
+  id: string;
+  title: string;
+  description: string;
+  tags: string; // Comma separated, same format as the feed post
+  ownerId: string;
+  ownerName: string;
+  ownerEmail: string;
+  postId: string; // Feed post advertising this project
+  groupChatId: string | null; // Project group chat
+  memberIds: string[]; // Owner plus accepted members
+  maxMembers: number | null; // Team size cap including the owner, null for no cap
+  status: ProjectStatus;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  archivedAt?: Timestamp;
+}
+
+export interface CreateProjectInput {
+  title: string;
+  description: string;
+  tags: string;
+  ownerId: string;
+  ownerName: string;
+  ownerEmail: string;
+  ownerPhotoURL?: string | null;
+  profileColor?: string;
+  maxMembers?: number | null;
+}
+
+export type ProjectUpdates = Partial<Pick<Project, 'title' | 'description' | 'tags' | 'maxMembers'>>;
+
+export class ProjectService {
+  // ============ PROJECT FUNCTIONS ============
+
+  // Create a project together with its feed post and group chat
+  static async createProject(input: CreateProjectInput): Promise<Result<string>> {
+    try {
+      const projectRef = doc(collection(db, 'projects'));
+      const postRef = doc(collection(db, 'posts'));
+      const chatRef = doc(collection(db, 'groupChats'));
+
+      const now = Timestamp.now();
+      const newProject: Omit<Project, 'id'> = {
+        title: input.title,
+        description: input.description,
+        tags: input.tags,
+        ownerId: input.ownerId,
+        ownerName: input.ownerName,
+        ownerEmail: input.ownerEmail,
+        postId: postRef.id,
+        groupChatId: chatRef.id,
+        memberIds: [input.ownerId],
+        maxMembers: input.maxMembers || null,
+        status: 'open',
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const batch = writeBatch(db);
+      batch.set(projectRef, newProject);
+      batch.set(postRef, {
+        projectId: projectRef.id,
+        title: input.title,
+        tags: input.tags,
+        description: input.description,
+        uid: input.ownerId,
+        username: input.ownerName,
+        photoURL: input.ownerPhotoURL || null,
+        profileColor: input.profileColor || '#ff8c00',
+        status: 'open',
+        createdAt: serverTimestamp() // consistent across timezones
+      });
+      batch.set(
+        chatRef,
+        ChatService.buildGroupChat(
+          projectRef.id,
+          input.title,
+          `Group chat for ${input.title}`,
+          input.ownerId,
+          input.ownerName,
+          input.ownerEmail
+        )
+      );
+
+      await batch.commit();
+      return ok(projectRef.id);
+    } catch (error) {
+      return failFromError('Error creating project', error);
+    }
+  }
+
+  // Get a project by ID
+  static async getProjectById(projectId: string): Promise<Result<Project>> {
+    try {
+      const projectDoc = await getDoc(doc(db, 'projects', projectId));
+
+      if (!projectDoc.exists()) {
+        return fail('not-found', 'This project no longer exists.');
+      }
+
+      return ok({ id: projectDoc.id, ...projectDoc.data() } as Project);
+    } catch (error) {
+      return failFromError('Error fetching project by ID', error);
+    }
+  }
+
+  // Check whether a project can move from one status to another
+  static canTransition(from: ProjectStatus, to: ProjectStatus): boolean {
+    return PROJECT_STATUS_TRANSITIONS[from].includes(to);
+  }
+
+  // Whether the project's team has reached its size cap
+  static isAtCapacity(project: Pick<Project, 'memberIds' | 'maxMembers'>): boolean {
+    return project.maxMembers !== null && project.memberIds.length >= project.maxMembers;
+  }
+
+  // Update a project's details and keep the post and group chat in sync
+  static async updateProject(projectId: string, updates: ProjectUpdates): Promise<Result<void>> {
+    try {
+      const projectResult = await this.getProjectById(projectId);
+      if (!projectResult.ok) {
+        return projectResult;
+      }
+      const project = projectResult.value;
+
+      const now = Timestamp.now();
+      const projectUpdates: DocumentData = { ...updates, updatedAt: now };
+      const postUpdates: DocumentData = { ...updates };
+      delete postUpdates.maxMembers;
+
+      // Changing the team size cap can open or close recruiting
+      if (updates.maxMembers !== undefined && (project.status === 'open' || project.status === 'full')) {
+        const status = this.isAtCapacity({ ...project, maxMembers: updates.maxMembers })
+          ? 'full'
+          : 'open';
+        projectUpdates.status = status;
+        postUpdates.status = status;
+      }
+
+      const batch = writeBatch(db);
+      batch.update(doc(db, 'projects', projectId), projectUpdates);
+      batch.update(doc(db, 'posts', project.postId), postUpdates);
+
+      if (project.groupChatId && updates.title) {
+        batch.update(doc(db, 'groupChats', project.groupChatId), {
+          projectName: updates.title,
+          updatedAt: now
+        });
+      }
+
+      await batch.commit();
+      return ok(undefined);
+    } catch (error) {
+      return failFromError('Error updating project', error);
+    }
+  }
+
+  // Move a project to a new status (owner only)
+  static async updateProjectStatus(
+    projectId: string,
+    actorId: string,
+    status: ProjectStatus
+  ): Promise<Result<void>> {
+    try {
+      const projectResult = await this.getProjectById(projectId);
+      if (!projectResult.ok) {
+        return projectResult;
+      }
+      const project = projectResult.value;
+
+      if (project.ownerId !== actorId) {
+        return fail('permission-denied', 'Only the project owner can change its status.');
+      }
+
+      if (!this.canTransition(project.status, status)) {
+        return fail(
+          'validation',
+          `A project that is ${PROJECT_STATUS_LABELS[project.status].toLowerCase()} can't be marked ${PROJECT_STATUS_LABELS[status].toLowerCase()}.`
+        );
+      }
+
+      if (status === 'open' && this.isAtCapacity(project)) {
+        return fail('validation', "The team is full, so the project can't reopen.");
+      }
+
+      const now = Timestamp.now();
+      const batch = writeBatch(db);
+      batch.update(doc(db, 'projects', projectId), {
+        status,
+        updatedAt: now,
+        ...(status === 'archived' ? { archivedAt: now } : {})
+      });
+      batch.update(doc(db, 'posts', project.postId), { status });
+
+      if (project.groupChatId) {
+        batch.update(doc(db, 'groupChats', project.groupChatId), {
+          isReadOnly: READ_ONLY_STATUSES.includes(status),
+          updatedAt: now
+        });
+        batch.set(
+          doc(collection(db, 'groupChats', project.groupChatId, 'messages')),
+          ChatService.buildSystemMessage(
+            `${project.ownerName} marked the project ${PROJECT_STATUS_LABELS[status].toLowerCase()}.`
+          )
+        );
+      }
+
+      await batch.commit();
+      return ok(undefined);
+    } catch (error) {
+      return failFromError('Error updating project status', error);
+    }
+  }
+
+  // Archive a project: hide it from the feed but keep its history
+  static async archiveProject(projectId: string, actorId: string): Promise<Result<void>> {
+    return this.updateProjectStatus(projectId, actorId, 'archived');
+  }
+
+  // Write a new member into a project read in the same transaction, flipping it
+  // to full at capacity. Returns the project's status after the write.
+  static addMemberInTransaction(
+    transaction: Transaction,
+    project: Project,
+    userId: string
+  ): ProjectStatus {
+    if (project.memberIds.includes(userId)) {
+      return project.status;
+    }
+
+    const memberIds = [...project.memberIds, userId];
+    const updates: DocumentData = {
+      memberIds,
+      updatedAt: Timestamp.now()
+    };
+
+    if (project.status === 'open' && this.isAtCapacity({ ...project, memberIds })) {
+      updates.status = 'full';
+      transaction.update(doc(db, 'posts', project.postId), { status: 'full' });
+    }
+
+    transaction.update(doc(db, 'projects', project.id), updates);
+    return updates.status || project.status;
+  }
+
+  // Take a member out of a project read in the same transaction, reopening it
+  // if the team was full because it hit its cap. Returns the project's status after the write.
+  static removeMemberInTransaction(
+    transaction: Transaction,
+    project: Project,
+    userId: string
+  ): ProjectStatus {
+    if (!project.memberIds.includes(userId) || userId === project.ownerId) {
+      return project.status;
+    }
+
+    const updates: DocumentData = {
+      memberIds: project.memberIds.filter(id => id !== userId),
+      updatedAt: Timestamp.now()
+    };
+
+    if (project.status === 'full' && this.isAtCapacity(project)) {
+      updates.status = 'open';
+      transaction.update(doc(db, 'posts', project.postId), { status: 'open' });
+    }
+
+    transaction.update(doc(db, 'projects', project.id), updates);
+    return updates.status || project.status;
+  }
+
+  // Link a group chat to a project (used when a chat had to be created later)
+  static async setProjectGroupChat(projectId: string, groupChatId: string): Promise<Result<void>> {
+    try {
+      await updateDoc(doc(db, 'projects', projectId), {
+        groupChatId,
+        updatedAt: Timestamp.now()
+      });
+      return ok(undefined);
+    } catch (error) {
+      return failFromError('Error linking project group chat', error);
+    }
+  }
+
+  // Get all projects the user owns or has joined, in any status
+  static async getUserProjects(userId: string): Promise<Result<Project[]>> {
+    try {
+      const q = query(
+        collection(db, 'projects'),
+        where('memberIds', 'array-contains', userId),
+        orderBy('updatedAt', 'desc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      const projects: Project[] = [];
+
+      querySnapshot.forEach((doc) => {
+        projects.push({ id: doc.id, ...doc.data() } as Project);
+      });
+
+      return ok(projects);
+    } catch (error) {
+      return failFromError('Error fetching user projects', error);
+    }
+  }
+
+  // Subscribe to real-time updates for the projects a user owns or has joined
+  static subscribeToUserProjects(
+    userId: string,
+    callback: (projects: Project[]) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    const q = query(
+      collection(db, 'projects'),
+      where('memberIds', 'array-contains', userId),
+      orderBy('updatedAt', 'desc')
+    );
+
+    const unsubscribe = onSnapshot(q, (querySnapshot: QuerySnapshot<DocumentData>) => {
+      const projects: Project[] = [];
+      querySnapshot.forEach((doc) => {
+        projects.push({ id: doc.id, ...doc.data() } as Project);
+      });
+      callback(projects);
+    }, (error) => {
+      console.error('Error in projects subscription:', error);
+      onError?.(toServiceError(error));
+    });
+
+    return unsubscribe;
+  }
+}
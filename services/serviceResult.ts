@@ -0,0 +1,86 @@
+import { FirebaseError } from 'firebase/app';
+
+// Type definitions
+export type ServiceErrorCode =
+  | 'not-found'
+  | 'permission-denied'
+  | 'already-exists'
+  | 'offline'
+  | 'validation'
+  | 'unknown';
+
+export interface ServiceError {
+  code: ServiceErrorCode;
+  message: string; // Safe to show to users
+  retryable: boolean; // Whether trying the same call again may succeed
+  cause?: unknown; // Original error, for logging
+}
+
+export type Result<T> = { ok: true; value: T } | { ok: false; error: ServiceError };
+
+// Default user-facing explanation for each error code
+export const SERVICE_ERROR_MESSAGES: Record<ServiceErrorCode, string> = {
+  'not-found': 'It may have been deleted.',
+  'permission-denied': "You don't have permission to do that.",
+  'already-exists': 'That has already been done.',
+  'offline': 'Check your internet connection and try again.',
+  'validation': "That can't be done right now.",
+  'unknown': 'Something went wrong. Please try again.'
+};
+
+// Codes worth offering a retry for
+const RETRYABLE_CODES: ServiceErrorCode[] = ['offline', 'unknown'];
+
+// Firebase error codes (Firestore and Storage) mapped onto ours
+const FIREBASE_ERROR_CODES: Record<string, ServiceErrorCode> = {
+  'not-found': 'not-found',
+  'permission-denied': 'permission-denied',
+  'unauthenticated': 'permission-denied',
+  'already-exists': 'already-exists',
+  'unavailable': 'offline',
+  'deadline-exceeded': 'offline',
+  'invalid-argument': 'validation',
+  'failed-precondition': 'validation',
+  'out-of-range': 'validation',
+  'storage/object-not-found': 'not-found',
+  'storage/unauthorized': 'permission-denied',
+  'storage/unauthenticated': 'permission-denied',
+  'storage/retry-limit-exceeded': 'offline',
+  'storage/quota-exceeded': 'validation'
+};
+
+export const ok = <T>(value: T): Result<T> => ({ ok: true, value });
+
+// A failed Result; message defaults to the generic text for the code
+export const fail = <T = never>(code: ServiceErrorCode, message?: string): Result<T> => ({
+  ok: false,
+  error: {
+    code,
+    message: message || SERVICE_ERROR_MESSAGES[code],
+    retryable: RETRYABLE_CODES.includes(code)
+  }
+});
+
+// Convert anything thrown by Firebase (or the network) into a ServiceError
+export const toServiceError = (error: unknown): ServiceError => {
+  let code: ServiceErrorCode = 'unknown';
+
+  if (error instanceof FirebaseError) {
+    code = FIREBASE_ERROR_CODES[error.code] || 'unknown';
+  } else if (error instanceof Error && /network/i.test(error.message)) {
+    code = 'offline';
+  }
+
+  return {
+    code,
+    message: SERVICE_ERROR_MESSAGES[code],
+    retryable: RETRYABLE_CODES.includes(code),
+    cause: error
+  };
+};
+
+// Log an unexpected error and wrap it as a failed Result
+export const failFromError = <T = never>(context: string, error: unknown): Result<T> => {
+  console.error(`${context}:`, error);
+  return { ok: false, error: toServiceError(error) };
+};
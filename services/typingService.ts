@@ -0,0 +1,104 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  setDoc,
+  Timestamp,
+  DocumentData,
+  QuerySnapshot
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { failFromError, ok, Result, ServiceError, toServiceError } from './serviceResult';
+
+// Type definitions
+// Chats that show who is typing
+export type TypingChatType = 'group' | 'request_dm';
+
+// {chat}/typing/{userId}, rewritten while the user types
+export interface TypingDoc {
+  displayName: string;
+  updatedAt: Timestamp;
+}
+
+export interface TypingUser extends TypingDoc {
+  userId: string;
+}
+
+// Someone typing refreshes their typing doc at most this often
+export const TYPING_THROTTLE_MS = 3 * 1000;
+
+// Pausing this long counts as having stopped typing
+export const TYPING_IDLE_MS = 5 * 1000;
+
+// A typing doc older than this is ignored, so a crashed client doesn't type forever
+export const TYPING_EXPIRY_MS = 8 * 1000;
+
+const TYPING_PARENT_COLLECTIONS: Record<TypingChatType, string> = {
+  group: 'groupChats',
+  request_dm: 'requestDMs'
+};
+
+export class TypingService {
+  private static typingRef(chatType: TypingChatType, chatId: string) {
+    return collection(db, TYPING_PARENT_COLLECTIONS[chatType], chatId, 'typing');
+  }
+
+  // Record that the user is typing in a chat
+  static async setTyping(
+    chatType: TypingChatType,
+    chatId: string,
+    userId: string,
+    displayName: string
+  ): Promise<Result<void>> {
+    try {
+      const typing: TypingDoc = { displayName, updatedAt: Timestamp.now() };
+      await setDoc(doc(this.typingRef(chatType, chatId), userId), typing);
+      return ok(undefined);
+    } catch (error) {
+      return failFromError('Error setting typing state', error);
+    }
+  }
+
+  // Record that the user stopped typing (sent, cleared the input, or left the chat)
+  static async clearTyping(chatType: TypingChatType, chatId: string, userId: string): Promise<Result<void>> {
+    try {
+      await deleteDoc(doc(this.typingRef(chatType, chatId), userId));
+      return ok(undefined);
+    } catch (error) {
+      return failFromError('Error clearing typing state', error);
+    }
+  }
+
+  // Whether a typing doc is recent enough to show
+  static isFresh(typing: TypingDoc, now: number = Date.now()): boolean {
+    return now - typing.updatedAt.toMillis() < TYPING_EXPIRY_MS;
+  }
+
+  // "Alex is typing…", "Alex and Sam are typing…", "Several people are typing…"
+  static describe(names: string[]): string {
+    if (names.length === 0) return '';
+    if (names.length === 1) return `${names[0]} is typing…`;
+    if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+    return 'Several people are typing…';
+  }
+
+  // Subscribe to everyone's typing docs in a chat, fresh or not
+  static subscribeToTyping(
+    chatType: TypingChatType,
+    chatId: string,
+    callback: (typing: TypingUser[]) => void,
+    onError?: (error: ServiceError) => void
+  ): () => void {
+    return onSnapshot(this.typingRef(chatType, chatId), (querySnapshot: QuerySnapshot<DocumentData>) => {
+      const typing: TypingUser[] = [];
+      querySnapshot.forEach((doc) => {
+        typing.push({ userId: doc.id, ...(doc.data() as TypingDoc) });
+      });
+      callback(typing);
+    }, (error) => {
+      console.error('Error in typing subscription:', error);
+      onError?.(toServiceError(error));
+    });
+  }
+}
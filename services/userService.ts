@@ -0,0 +1,48 @@
+import { doc, getDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../firebase';
+import { fail, failFromError, ok, Result } from './serviceResult';
+
+// Type definitions
+// The parts of a users/{uid} doc anyone signed in may see
+export interface PublicProfile {
+  userId: string;
+  name: string;
+  email: string;
+  major: string;
+  bio: string;
+  tags: string[];
+  photoURL: string | null;
+  profileColor?: string;
+  friendsCount: number;
+  projectsCount: number;
+  createdAt?: Timestamp;
+}
+
+export class UserService {
+  // Load another user's profile for read-only display
+  static async getPublicProfile(userId: string): Promise<Result<PublicProfile>> {
+    try {
+      const userDoc = await getDoc(doc(db, 'users', userId));
+      if (!userDoc.exists()) {
+        return fail('not-found', 'This user no longer exists.');
+      }
+
+      const data = userDoc.data();
+      return ok({
+        userId: userDoc.id,
+        name: data.name || data.email,
+        email: data.email,
+        major: data.major || '',
+        bio: data.bio || '',
+        tags: data.tags || [],
+        photoURL: data.photoURL || null,
+        profileColor: data.profileColor,
+        friendsCount: data.friendsCount || 0,
+        projectsCount: data.projectsCount || 0,
+        createdAt: data.createdAt
+      });
+    } catch (error) {
+      return failFromError('Error fetching user profile', error);
+    }
+  }
+}